@@ -16,6 +16,263 @@ export type InDomValue = string | string[] | FileList | null;
  */
 export type InDomValuesMap = Record<string, InDomValue | Record<string, InDomValue>>;
 
+/**
+ * Map of values nested by the bracket and dot notation of field names
+ * (`user[address][city]`, `items[0][qty]`, `user.name`, `tags[]`), returned by `getValues()` with `nested`.
+ */
+export type InDomNestedValues = { [key: string]: InDomValue | InDomNestedValues | (InDomValue | InDomNestedValues)[] };
+
+/**
+ * Options accepted by `InDom.getValues()` as the last argument.
+ */
+export type InDomGetValuesOptions = {
+	/** Nest values by the bracket and dot notation of field names instead of grouping by underscore */
+	nested?: boolean;
+};
+
+/**
+ * Options accepted by `InDom.setValues()`.
+ */
+export type InDomSetValuesOptions = {
+	/** Clear the fields of the container missing from the map (hidden, file and button inputs are left as they are) */
+	clearMissing?: boolean;
+	/** Throw, without changing any field, if the map has keys with no matching field */
+	strict?: boolean;
+	/** Read the map as nested by the bracket and dot notation of field names, like `getValues()` with `nested` */
+	nested?: boolean;
+};
+
+/**
+ * Validation rules of one field for `InDom.validate()`. Rules other than `required` are skipped for empty values.
+ */
+export type InDomFieldRules = {
+	/** A value is needed (`''`, `null` and empty arrays are empty) */
+	required?: boolean;
+	/** Minimum number (the count of values for checkbox groups and multiple selects) */
+	min?: number;
+	/** Maximum number (the count of values for checkbox groups and multiple selects) */
+	max?: number;
+	/** Minimum length of a text value */
+	minLength?: number;
+	/** Maximum length of a text value */
+	maxLength?: number;
+	/** Pattern every value must match; a string must match the whole value, like the `pattern` attribute */
+	pattern?: RegExp | string;
+	/** The value must be an email address */
+	email?: boolean;
+	/** Name of another field that must have the same value (e.g. a password confirmation) */
+	match?: string;
+	/** Custom check: `true` when valid, `false` or an error message when not; may be async */
+	custom?: (value: InDomValue, values: InDomValuesMap, n: InDom | null) => boolean | string | Promise<boolean | string>;
+	/** Messages replacing the default ones, by rule */
+	messages?: Partial<Record<Exclude<keyof InDomFieldRules, 'messages'>, string>>;
+};
+
+/**
+ * Options accepted by `InDom.validate()`.
+ */
+export type InDomValidateOptions = {
+	/** Read the native constraint attributes of the fields: `required`, `pattern`, `min`, `max`, `minlength`, `maxlength`, `type="email"` (default `true`) */
+	native?: boolean;
+	/** Set `aria-invalid="true"` on invalid fields, and remove it from valid ones */
+	aria?: boolean;
+	/**
+	 * Write error messages into the DOM: `true` for the `[data-error-for="<name>"]` element of the container
+	 * (created after the field if missing), or a function returning the element for a field
+	 */
+	messages?: boolean | ((n: InDom, name: string) => InDom | Element | null);
+	/** Revalidate a field (and the fields that must match it) on `input` and `change` (`true`), or on one of them */
+	live?: boolean | 'input' | 'change';
+	/**
+	 * Called with the result of each live revalidation (covering the revalidated fields); errors of live
+	 * revalidations (thrown by it or by a `custom` rule) are rethrown in a task, like errors of listeners
+	 */
+	onValidate?: (result: InDomValidationResult) => void;
+};
+
+/**
+ * Result of `InDom.validate()`.
+ */
+export type InDomValidationResult = {
+	/** True if no field has an error */
+	valid: boolean;
+	/** First error message by field name, only for invalid fields */
+	errors: Record<string, string>;
+	/** Field values, as `getValues([], container)` returns them */
+	values: InDomValuesMap;
+};
+
+/**
+ * Init options accepted by `.trigger()`: `EventInit` plus the fields of the event built for the type
+ * (e.g. `key` for keyboard events, `clientX` for mouse events).
+ */
+export type InDomEventInit = MouseEventInit & KeyboardEventInit & FocusEventInit & InputEventInit & Record<string, unknown>;
+
+/**
+ * Options accepted by `.on()` and its shorthand methods: native listener options plus InDom extras.
+ */
+export type InDomEventOptions = AddEventListenerOptions & {
+	/** Namespace(s) of the listener for grouped removal with `.off('.ns')`, e.g. `'menu'` or `'menu.main'` */
+	namespace?: string;
+	/** Runs the handler once events stop for this many ms, with the last event */
+	debounce?: number;
+	/** Runs the handler at most once per this many ms (first and last event of a burst) */
+	throttle?: number;
+	/** Runs the handler at most once per animation frame, with the last event */
+	frame?: boolean;
+};
+
+/**
+ * Options accepted by `.onKey()`: event options plus keyboard shortcut behavior.
+ */
+export type InDomKeyOptions = InDomEventOptions & {
+	/** Calls `e.preventDefault()` when the shortcut matches (default `false`) */
+	preventDefault?: boolean;
+	/** Ignores key presses while focus is in an input, textarea, select or contenteditable (default `false`) */
+	ignoreInputs?: boolean;
+	/** Max milliseconds between the steps of a sequence like `'g i'` (default `1000`) */
+	sequenceTimeout?: number;
+};
+
+/**
+ * Options accepted by `.waitFor()`: event options plus a timeout.
+ */
+export type InDomWaitOptions = InDomEventOptions & {
+	/** Rejects if the event has not fired within this many ms */
+	timeout?: number;
+};
+
+/**
+ * Direction of a swipe or of a pointer movement.
+ */
+export type InDomSwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Pointer movement info passed to gesture handlers (`onTap`, `onLongPress`, `onSwipe`, `onPan`).
+ * Coordinates are viewport-relative (`clientX` / `clientY`).
+ */
+export type InDomGesture = {
+	/** `'start'` (long press, pan), `'move'` (pan), `'end'` (tap, swipe, pan) or `'cancel'` (pan) */
+	phase: 'start' | 'move' | 'end' | 'cancel';
+	startX: number;
+	startY: number;
+	x: number;
+	y: number;
+	/** Movement since the pointer went down */
+	dx: number;
+	dy: number;
+	/** Milliseconds since the pointer went down */
+	duration: number;
+	/** Dominant direction of the movement, `null` if the pointer has not moved */
+	direction: InDomSwipeDirection | null;
+};
+
+/**
+ * Options accepted by gesture methods: event options plus thresholds.
+ */
+export type InDomGestureOptions = InDomEventOptions & {
+	/** Max pointer movement in px for a tap or long press (default `10`) */
+	maxDistance?: number;
+	/** Max duration in ms of a tap (default `300`) or swipe (default `500`) */
+	maxDuration?: number;
+	/** Press duration in ms before a long press fires (default `500`) */
+	delay?: number;
+	/** Min movement in px for a swipe (default `30`) or before a pan starts (default `5`) */
+	minDistance?: number;
+};
+
+/**
+ * Handler of a topic subscription, see `.subscribe()`.
+ * `source` is the InDom object that emitted the topic, or `null` for `InDom.emit()`.
+ */
+export type InDomTopicHandler = (n: InDom, payload: any, topic: string, source: InDom | null) => void;
+
+/**
+ * Handler of `.onAttrChange()`: attribute name, its previous value and its current value (`null` if absent).
+ */
+export type InDomAttrHandler = (n: InDom, name: string, oldValue: string | null, value: string | null) => void;
+
+/**
+ * Handler of `.onDataChange()`: data key, its new value (`undefined` once removed) and its previous value.
+ */
+export type InDomDataHandler = (n: InDom, key: any, value: any, oldValue: any) => void;
+
+/**
+ * How `.bind()` writes a data value to its target: as text content, as an attribute (`'attr:title'`,
+ * removed for `null` / `undefined` / `false`), as a class toggled by truthiness (`'class:active'`),
+ * or through a function called with the target, the value and the source.
+ */
+export type InDomBinding = 'text' | `attr:${string}` | `class:${string}` | ((target: InDom, value: any, n: InDom) => void);
+
+/**
+ * Read-only description of a registered listener, returned by `.getListeners()`.
+ */
+export type InDomListenerInfo = {
+	/** Event type it is registered for, e.g. `'click'`, `'swipe'` or `'onRemove'` */
+	readonly type: string;
+	/** Handler reference, as returned by `.on()` / `.onRemove()` (pass to `.off()` to remove) */
+	readonly handler: InDomHandler;
+	/** Namespaces it was registered with */
+	readonly namespaces: readonly string[];
+	/** Options it was registered with */
+	readonly options: Readonly<InDomEventOptions>;
+};
+
+/**
+ * Options accepted by `.onVisible()` / `.onHidden()`: event options plus intersection settings.
+ */
+export type InDomVisibleOptions = InDomEventOptions & {
+	/** Ratio (0 – 1) of the element that must be in view to count as visible (default `0`: any pixel) */
+	threshold?: number;
+	/** Grows or shrinks the viewport, CSS margin syntax, e.g. `'200px 0px'` (default `'0px'`) */
+	rootMargin?: string;
+};
+
+/**
+ * Options accepted by `new InDom()` / `$n()`.
+ */
+export type InDomCreateOptions = {
+	/**
+	 * Allows listeners, data and `onRemove` callbacks on a detached element (e.g. a component built
+	 * from HTML before insertion); what reaches outside the element is deferred until it is connected
+	 */
+	detached?: boolean;
+};
+
+/**
+ * Options accepted by `InDom.configure()`.
+ */
+export type InDomConfig = {
+	/**
+	 * Initialize on first use (default `true`); with `false`, `InDom.init()` must be called explicitly
+	 */
+	autoInit?: boolean;
+	/**
+	 * Root observed for automatic cleanup (default the `<body>` of the document), `null` restores the default
+	 */
+	root?: Document | ShadowRoot | Element | InDom | null;
+	/**
+	 * Document (and through its `defaultView`, the window) InDom operates on instead of the globals
+	 * (e.g. the document of a jsdom / happy-dom window), `null` restores the global one
+	 */
+	document?: Document | null;
+	/**
+	 * Parse `data-*` attribute values read by `getData()` / `getAllData()` into numbers, booleans, `null`
+	 * and JSON objects / arrays (default `false`: raw strings)
+	 */
+	typedData?: boolean;
+	/**
+	 * Types of `data-*` attribute values per data key, applied in either mode; `null` clears them
+	 */
+	dataSchema?: Record<string, InDomDataType> | null;
+};
+
+/**
+ * Type of a `data-*` attribute value (`InDom.configure({ dataSchema })`): `'auto'` parses like `typedData`,
+ * `'boolean'` reads `'false'`, `'0'`, `'off'` and `'no'` as false, a function converts the raw string.
+ */
+export type InDomDataType = 'string' | 'number' | 'boolean' | 'json' | 'auto' | ((raw: string) => any);
+
 /**
  * Acceptable child types for insertion methods like append, prepend, before, after.
  */
@@ -26,6 +283,88 @@ export type InDomChild = string | Node | InDom;
  */
 export type InDomChildren = InDomChild | InDomChild[];
 
+// Node type / filter constants, realm-independent (no global `Node` needed outside the browser)
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const DOCUMENT_NODE = 9;
+const DOCUMENT_FRAGMENT_NODE = 11;
+const SHOW_ELEMENT = 1; // NodeFilter.SHOW_ELEMENT
+
+/**
+ * Private members of InDom used by InDomArray and InDomScope, assigned by a static block of InDom.
+ */
+let internals: {
+	/** Connection check of an InDom object (its `#ensureConnected`) */
+	ensureConnected: (n: InDom) => void;
+	/** Whether an InDom object has been destroyed */
+	isRemoved: (n: InDom) => boolean;
+};
+
+/**
+ * One parsed step of a keyboard shortcut, e.g. `ctrl+shift+k`.
+ */
+type InDomKeyStep = {
+	key: string;
+	ctrl: boolean;
+	shift: boolean;
+	alt: boolean;
+	meta: boolean;
+};
+
+/**
+ * Bookkeeping record stored for every listener in the `#events` registry.
+ */
+type InDomListener = {
+	/** Namespaces the listener was registered with */
+	ns: string[];
+	/** Capture flag, needed to remove the native listener */
+	capture: boolean;
+	/** Options as given by the caller, reported by `.getListeners()` */
+	opts: Readonly<InDomEventOptions>;
+	/** True for pseudo event types (onRemove, gestures …) that have no native listener of that type */
+	virtual?: boolean;
+	/** Releases what the listener holds outside the element (e.g. a caller signal's abort listener) */
+	cleanup?: () => void;
+	/** Handler as given by the caller (before binding / wrapping), to detect duplicates in debug mode */
+	fn?: Function;
+	/** Selector of a delegated listener */
+	selector?: string;
+};
+
+/**
+ * Snapshot returned by `InDom.stats()` (debug mode).
+ */
+export type InDomStats = {
+	/** Live InDom objects tracked since debug mode was turned on (every object InDom returned or created for an element) */
+	instances: number;
+	/** Registered listeners per event type, including pseudo types (`onRemove`, `tap`, `topic:<topic>` …) */
+	listeners: Record<string, number>;
+	/** Total number of listeners */
+	listenerCount: number;
+	/** Entries stored with `.setData()` */
+	data: number;
+	/** InDom objects cleaned up since debug mode was turned on */
+	removed: number;
+	/** Roots observed for automatic cleanup */
+	roots: number;
+	/** Active `InDom.watch()` watches */
+	watchers: number;
+};
+
+/**
+ * A live selector watch registered with `InDom.watch()`.
+ */
+type InDomWatcher = {
+	selector: string;
+	container: ParentNode;
+	onAdd?: (n: InDom) => void;
+	onRemove?: (n: InDom) => void;
+	/** Objects already handled (a destroyed element that comes back gets a new object) */
+	seen: WeakSet<InDom>;
+	/** `onRemove` handlers registered on the handled objects, released on unwatch */
+	handlers: Map<InDom, InDomHandler>;
+};
+
 /**
  * Array-like container for bulk DOM element operations.
  * Extends Array to provide chainable bulk operations on multiple InDom objects.
@@ -97,6 +436,42 @@ export class InDomArray extends Array<InDom> {
 		return this.#eachSetter('removeData', [k]);
 	}
 
+	/**
+	 * Returns the data of every object in the array. See {@link InDom.getAllData}.
+	 *
+	 * @returns {Record<string, any>[]} One snapshot per element
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	getAllData(): Record<string, any>[] {
+		this.#ensureConnected();
+		const a: Record<string, any>[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].getAllData();
+		}
+		return a;
+	}
+
+	/**
+	 * Adds data change listeners to all objects in the array. See {@link InDom.onDataChange}.
+	 *
+	 * @param {any | InDomDataHandler} key - Data key to watch, or the handler to watch every key
+	 * @param {InDomDataHandler | InDomEventOptions} [fn] - Handler, or options when `key` is the handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('datachange', …)`)
+	 * @throws {TypeError} If the handler is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onDataChange(key: any, fn: InDomDataHandler, opts?: InDomEventOptions): InDomHandler[];
+	onDataChange(fn: InDomDataHandler, opts?: InDomEventOptions): InDomHandler[];
+	onDataChange(key: any, fn?: InDomDataHandler | InDomEventOptions, opts?: InDomEventOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = (this[i].onDataChange as Function)(key, fn, opts);
+		}
+		return a;
+	}
+
 	/**
 	 * Sets form value on all objects.
 	 * 
@@ -200,24 +575,30 @@ export class InDomArray extends Array<InDom> {
 
 	/**
 	 * Registers event listener(s) on all elements. Auto-removed on element removal.
+	 * When a selector is given, each element acts as a delegation container and the handler
+	 * receives the InDom object of the matched descendant instead.
 	 *
-	 * @param type - Event type or array of types
-	 * @param fn   - Handler function. Omit for mouse/click to auto-trigger
-	 * @param opts - Event options (once, passive, etc.)
+	 * @param type     - Event type or array of types
+	 * @param selector - (optional) CSS selector of descendants to delegate to
+	 * @param fn       - Handler function. Omit to trigger the event (built like `.trigger()`)
+	 * @param opts     - Event options (once, passive, etc.)
 	 * @returns Array of handlers (one per element)
 	 * @throws If any element is disconnected or DOM not ready
 	 */
-	on(type: string, fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler[];
-	on(type: string[], fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler[];
+	on(type: string, fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler[];
+	on(type: string[], fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler[];
+	on(type: string, selector: string, fn: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler[];
+	on(type: string[], selector: string, fn: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler[];
 	on(
 		type: string | string[],
-		fn?: (n: InDom, e: Event) => void,
-		opts?: AddEventListenerOptions
+		selectorOrFn?: string | ((n: InDom, e: Event) => void),
+		fnOrOpts?: ((n: InDom, e: Event) => void) | InDomEventOptions,
+		opts?: InDomEventOptions
 	): InDomHandler[] {
 		this.#ensureConnected();
 		const a: InDomHandler[] = new Array(this.length);
 		for (let i = 0; i < this.length; i++) {
-			a[i] = this[i].on(type as any, fn as any, opts as any);
+			a[i] = (this[i].on as Function)(type, selectorOrFn, fnOrOpts, opts);
 		}
 		return a;
 	}
@@ -227,17 +608,17 @@ export class InDomArray extends Array<InDom> {
 	 * 
 	 * @param {string} type - Event type
 	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function
-	 * @param {AddEventListenerOptions} [opts={}] - Options
+	 * @param {InDomEventOptions} [opts={}] - Options
 	 * @returns {InDomHandler[]} Array of handlers
 	 */
-	once(type: string, fn?: (n: InDom, e: Event) => void, opts: AddEventListenerOptions = {}): InDomHandler[] {
+	once(type: string, fn?: (n: InDom, e: Event) => void, opts: InDomEventOptions = {}): InDomHandler[] {
 		return this.on(type, fn, { ...opts, once: true });
 	}
 
 	/**
 	 * Removes event listener(s) registered with `.on()`, its shorthand methods, or `onRemove()`.
 	 * 
-	 * @param {string} [type] - Event type
+	 * @param {string} [type] - Event type, optionally namespaced (`'click.menu'`), or namespace only (`'.menu'`)
 	 * @param {InDomHandler[]} [fnArr] - Handlers to remove
 	 * @returns {this} The current InDomArray for chaining
 	 * @throws {RangeError} If fnArr length doesn’t match array length
@@ -256,20 +637,62 @@ export class InDomArray extends Array<InDom> {
 		return this;
 	}
 
+	/**
+	 * Counts the listeners of each object in the array, per event type.
+	 * See {@link InDom.getListeners} for the `type` filter.
+	 *
+	 * @param {string} [type] - Event type, optionally namespaced, or namespace only. If omitted, all listeners are counted.
+	 * @returns {Record<string, number>[]} For each element, the number of listeners by event type (types without listeners are omitted)
+	 * @throws {TypeError} If `type` is provided but is not a non-empty string
+	 * @throws {Error} If an element’s underlying DOM node has been removed
+	 */
+	getListeners(type?: string): Record<string, number>[] {
+		const a: Record<string, number>[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			const counts: Record<string, number> = {};
+			const list = this[i].getListeners(type);
+			for (let j = 0; j < list.length; j++) {
+				counts[list[j].type] = (counts[list[j].type] ?? 0) + 1;
+			}
+			a[i] = counts;
+		}
+		return a;
+	}
+
+	/**
+	 * Checks, for each object in the array, whether a listener is registered.
+	 *
+	 * @param {string} type - Event type, optionally namespaced (`'click.menu'`), or namespace only (`'.menu'`)
+	 * @param {InDomHandler[]} [fnArr] - Handlers to look for, one per element (as returned by the bulk `.on()`)
+	 * @returns {boolean[]} For each element, `true` if a matching listener is registered
+	 * @throws {RangeError} If fnArr length doesn’t match array length
+	 * @throws {TypeError} If `type` is not a non-empty string
+	 * @throws {Error} If an element’s underlying DOM node has been removed
+	 */
+	hasListener(type: string, fnArr?: InDomHandler[]): boolean[] {
+		if (fnArr && (!Array.isArray(fnArr) || fnArr.length !== this.length)) {
+			throw new RangeError(`Expected ${this.length} handlers, got ${fnArr?.length ?? 0}`);
+		}
+		const a: boolean[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].hasListener(type, fnArr?.[i]);
+		}
+		return a;
+	}
+
 	/**
 	 * Adds `click` event listeners to all objects in the array.
 	 *
 	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing click listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options (e.g. `once`, `passive`).
+	 * @param {InDomEventOptions} [opts] - Optional event listener options (e.g. `once`, `passive`).
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('click', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -278,15 +701,14 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing double-click listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onDoubleClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onDoubleClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('dblclick', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -295,15 +717,14 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing mouseenter listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onEnter(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onEnter(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('mouseenter', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -312,15 +733,14 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing mouseleave listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onLeave(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onLeave(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('mouseleave', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -329,15 +749,14 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing focus listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onFocus(fn?: (n: InDom, e: FocusEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onFocus(fn?: (n: InDom, e: FocusEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('focus', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -346,15 +765,14 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing blur listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onBlur(fn?: (n: InDom, e: FocusEvent) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onBlur(fn?: (n: InDom, e: FocusEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('blur', fn as ((n: InDom, e: Event) => void) | undefined, opts);
 	}
 
@@ -363,122 +781,462 @@ export class InDomArray extends Array<InDom> {
 	 *
 	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function to attach.  
 	 *        Omit to trigger all existing change listeners programmatically.
-	 * @param {AddEventListenerOptions} [opts] - Optional event listener options.
+	 * @param {InDomEventOptions} [opts] - Optional event listener options.
 	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element.
 	 *
-	 * @throws {Error} If auto-trigger is used with a non-mouse event.
 	 * @throws {TypeError} If `fn` is provided but not a function.
 	 * @throws {Error} If an element’s underlying DOM node has been removed.
 	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onChange(fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler[] {
+	onChange(fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler[] {
 		return this.on('change', fn, opts);
 	}
 
 	/**
-	 * For each InDom object in this InDomArray:
-	 * Registers a callback function that runs after the object's internal state
-	 * (listeners, data) has been cleaned up, and just before its element is removed from the DOM.
-	 * 
-	 * @param {(n: InDom) => void} fn - Handler function
-	 * @returns {InDomHandler[]} Array of handlers
-	 * @throws {Error} If any element is disconnected or DOM not ready
+	 * Adds a keyboard shortcut (`keydown`) listener to all objects in the array.
+	 * See {@link InDom.onKey} for the combo syntax.
+	 *
+	 * @param {string} combo - Shortcut, e.g. `'ctrl+shift+k'`, `'mod+enter'`, `'escape'` or a sequence `'g i'`
+	 * @param {(n: InDom, e: KeyboardEvent) => void} fn - Handler function
+	 * @param {InDomKeyOptions} [opts] - Event options plus `preventDefault`, `ignoreInputs`, `sequenceTimeout`
+	 * @returns {InDomHandler[]} Array of wrapped listeners, one per element (remove with `.off('keydown', …)`)
+	 *
+	 * @throws {TypeError} If `combo` is not a valid shortcut or `fn` is not a function
+	 * @throws {Error} If an element’s underlying DOM node has been removed.
+	 * @throws {Error} If an element’s underlying DOM node is not connected to the document.
 	 */
-	onRemove(fn: (n: InDom) => void): InDomHandler[] {
+	onKey(combo: string, fn: (n: InDom, e: KeyboardEvent) => void, opts?: InDomKeyOptions): InDomHandler[] {
 		this.#ensureConnected();
-		const a: InDomHandler[] = [];
-		this.forEach(n => a.push(n.onRemove(fn)));
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onKey(combo, fn, opts);
+		}
 		return a;
 	}
 
 	/**
-	 * Cleans the internal state of the InDom objects of the array and removes their underlying DOM elements from the document.
-	 * 
-	 * @throws {Error} If any element’s underlying DOM node has been removed
+	 * Adds tap gesture listeners to all objects in the array. See {@link InDom.onTap}.
+	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler function
+	 * @param {InDomGestureOptions} [opts] - Event options plus `maxDistance`, `maxDuration`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('tap', …)`)
+	 * @throws {TypeError} If `fn` is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
 	 */
-	remove(): void {
-		this.#eachSetter('remove', []);
+	onTap(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts?: InDomGestureOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onTap(fn, opts);
+		}
+		return a;
 	}
 
 	/**
-	 * Executes a function for each InDom in the array.
-	 * 
-	 * @param {(n: InDom, index: number, array: InDom[]) => void} fn - Callback
-	 * @returns {this} The current InDomArray for chaining
+	 * Adds long-press gesture listeners to all objects in the array. See {@link InDom.onLongPress}.
+	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler function
+	 * @param {InDomGestureOptions} [opts] - Event options plus `delay`, `maxDistance`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('longpress', …)`)
+	 * @throws {TypeError} If `fn` is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
 	 */
-	each(fn: (n: InDom, index: number, array: InDom[]) => void): this {
-		this.forEach(fn);
-		return this;
+	onLongPress(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts?: InDomGestureOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onLongPress(fn, opts);
+		}
+		return a;
 	}
 
-
-	filter<S extends InDom>(
-		predicate: (value: InDom, index: number, array: InDom[]) => value is S,
-		thisArg?: any
-	): InDomArray;
-	filter(
-		predicate: (value: InDom, index: number, array: InDom[]) => unknown,
-		thisArg?: any
-	): InDomArray;
-	filter(arg: string): InDomArray;
-
 	/**
-	 * Filters the collection.
-	 *
-	 * - If `arg` is a **string** it is treated as a CSS selector and every
-	 *   element that *matches* the selector is kept.
-	 * - If `arg` is a **function** the native `Array.prototype.filter` logic
-	 *   is used: `arg(element, index, array)` should return `true` to keep the
-	 *   item.
+	 * Adds swipe gesture listeners to all objects in the array. See {@link InDom.onSwipe}.
 	 *
-	 * In both cases a new `InDomArray` instance is returned, leaving the
-	 * original collection untouched.
-	 * 
-	*/
-	filter(arg: any, thisArg?: any): InDomArray {
-		return new InDomArray(
-			...(typeof arg === 'string'
-				? super.filter(n => {
-					const el = n.el();
-					return el instanceof Element && el.matches(arg);
-				})
-				: super.filter(arg))
-		);
+	 * @param {InDomSwipeDirection | 'any'} direction - Swipe direction to react to
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler function
+	 * @param {InDomGestureOptions} [opts] - Event options plus `minDistance`, `maxDuration`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('swipe', …)`)
+	 * @throws {TypeError} If `direction` is invalid or `fn` is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onSwipe(
+		direction: InDomSwipeDirection | 'any',
+		fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void,
+		opts?: InDomGestureOptions
+	): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onSwipe(direction, fn, opts);
+		}
+		return a;
 	}
+
 	/**
-	 * Executes a setter method on all objects.
-	 * 
-	 * @private
-	 * @param {keyof InDom} method - Method name
-	 * @param {any[]} args - Arguments to pass
-	 * @returns {this} The current InDomArray for chaining
+	 * Adds pan (drag) gesture listeners to all objects in the array. See {@link InDom.onPan}.
+	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler function
+	 * @param {InDomGestureOptions} [opts] - Event options plus `minDistance`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('pan', …)`)
+	 * @throws {TypeError} If `fn` is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
 	 */
-	#eachSetter(method: keyof InDom, args: any[]): this {
+	onPan(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts?: InDomGestureOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
 		for (let i = 0; i < this.length; i++) {
-			(this[i][method] as any)(...args);
+			a[i] = this[i].onPan(fn, opts);
 		}
-		return this;
+		return a;
 	}
 
 	/**
-	 * Verifies that DOM is ready and all elements are connected.
-	 * 
-	 * @private
-	 * @throws {Error} If DOM not ready or any element disconnected
+	 * Adds attribute change listeners to all objects in the array. See {@link InDom.onAttrChange}.
+	 *
+	 * @param {string | string[] | InDomAttrHandler} names - Attribute name(s) to watch, or the handler to watch every attribute
+	 * @param {InDomAttrHandler | InDomEventOptions} [fn] - Handler, or options when `names` is the handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('attrchange', …)`)
+	 * @throws {TypeError} If arguments are invalid
+	 * @throws {Error} If any element is disconnected or DOM not ready
 	 */
-	#ensureConnected(): void {
-		if (!InDom.isReady()) {
-			throw new Error('DOM content must be loaded first for this operation');
-		}
+	onAttrChange(names: string | string[], fn: InDomAttrHandler, opts?: InDomEventOptions): InDomHandler[];
+	onAttrChange(fn: InDomAttrHandler, opts?: InDomEventOptions): InDomHandler[];
+	onAttrChange(
+		names: string | string[] | InDomAttrHandler,
+		fn?: InDomAttrHandler | InDomEventOptions,
+		opts?: InDomEventOptions
+	): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
 		for (let i = 0; i < this.length; i++) {
-			if (!this[i].el().isConnected) {
-				throw new Error('Element must be connected to DOM for this operation', { cause: this[i].el() });
-			}
+			a[i] = (this[i].onAttrChange as Function)(names, fn, opts);
 		}
+		return a;
 	}
-}
 
-/**
+	/**
+	 * Adds mutation listeners to all objects in the array. See {@link InDom.onMutate}.
+	 *
+	 * @param {MutationObserverInit} init - What to observe (`childList`, `attributes`, `characterData`, `subtree` …)
+	 * @param {(n: InDom, records: MutationRecord[]) => void} fn - Handler, receives the batch of mutation records
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('mutate', …)`)
+	 * @throws {TypeError} If arguments are invalid
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onMutate(init: MutationObserverInit, fn: (n: InDom, records: MutationRecord[]) => void, opts?: InDomEventOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onMutate(init, fn, opts);
+		}
+		return a;
+	}
+
+	/**
+	 * Adds resize listeners to all objects in the array. See {@link InDom.onResize}.
+	 *
+	 * @param {(n: InDom, contentBox: DOMRect, borderBox: DOMRect, entry: ResizeObserverEntry) => void} fn - Handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('resize', …)`)
+	 * @throws {TypeError} If `fn` is not a function
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onResize(
+		fn: (n: InDom, contentBox: DOMRect, borderBox: DOMRect, entry: ResizeObserverEntry) => void,
+		opts?: InDomEventOptions
+	): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onResize(fn, opts);
+		}
+		return a;
+	}
+
+	/**
+	 * Adds visibility listeners to all objects in the array (each element on its own). See {@link InDom.onVisible}.
+	 *
+	 * @param {(n: InDom, entry: IntersectionObserverEntry) => void} fn - Handler
+	 * @param {InDomVisibleOptions} [opts] - `threshold`, `rootMargin`, plus `once`, `namespace`, `signal`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('visible', …)`)
+	 * @throws {TypeError} If `fn` is not a function or options are invalid
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onVisible(fn: (n: InDom, entry: IntersectionObserverEntry) => void, opts?: InDomVisibleOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onVisible(fn, opts);
+		}
+		return a;
+	}
+
+	/**
+	 * Adds hidden listeners to all objects in the array (each element on its own). See {@link InDom.onHidden}.
+	 *
+	 * @param {(n: InDom, entry: IntersectionObserverEntry) => void} fn - Handler
+	 * @param {InDomVisibleOptions} [opts] - `threshold`, `rootMargin`, plus `once`, `namespace`, `signal`
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('hidden', …)`)
+	 * @throws {TypeError} If `fn` is not a function or options are invalid
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onHidden(fn: (n: InDom, entry: IntersectionObserverEntry) => void, opts?: InDomVisibleOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].onHidden(fn, opts);
+		}
+		return a;
+	}
+
+	/**
+	 * Calls `fn` when a click happens outside every element of the array (the set is one region).
+	 * Each element owns a document-level listener removed with it; see {@link InDom.onClickOutside}.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} fn - Handler, `n` is the element whose listener ran first
+	 * @param {InDomEventOptions} [opts] - Event options
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('clickoutside', …)`)
+	 * @throws {TypeError} If `fn` is not a function, or an object is the document
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onClickOutside(fn: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
+		return this.#outside('onClickOutside', fn as (n: InDom, e: Event) => void, opts);
+	}
+
+	/**
+	 * Calls `fn` when focus moves outside every element of the array (the set is one region).
+	 * Each element owns a document-level listener removed with it; see {@link InDom.onFocusOutside}.
+	 *
+	 * @param {(n: InDom, e: FocusEvent) => void} fn - Handler, `n` is the element whose listener ran first
+	 * @param {InDomEventOptions} [opts] - Event options
+	 * @returns {InDomHandler[]} Array of handlers, one per element (remove with `.off('focusoutside', …)`)
+	 * @throws {TypeError} If `fn` is not a function, or an object is the document
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onFocusOutside(fn: (n: InDom, e: FocusEvent) => void, opts?: InDomEventOptions): InDomHandler[] {
+		return this.#outside('onFocusOutside', fn as (n: InDom, e: Event) => void, opts);
+	}
+
+	/**
+	 * Dispatches an event of the given type on all objects in the array.
+	 * See {@link InDom.trigger} for how the event constructor is chosen.
+	 *
+	 * @param {string} type - Event type, e.g. `'change'`, `'keydown'` or a custom app event
+	 * @param {any} [detail] - Payload available to handlers as `e.detail`
+	 * @param {InDomEventInit} [init] - Extra event init options (override the defaults), e.g. `{ key: 'Enter' }`
+	 * @returns {boolean[]} For each element, `true` if a handler cancelled the event via `preventDefault()`
+	 * @throws {TypeError} If `type` is not a non-empty string
+	 * @throws {Error} If an element’s underlying DOM node has been removed
+	 */
+	trigger(type: string, detail?: any, init?: InDomEventInit): boolean[] {
+		const a: boolean[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].trigger(type, detail, init);
+		}
+		return a;
+	}
+
+	/**
+	 * Subscribes all objects in the array to a topic.
+	 * See {@link InDom.subscribe} for ownership and removal.
+	 *
+	 * @param {string} topic - Topic name, e.g. `'cart:add'` (no spaces or dots)
+	 * @param {InDomTopicHandler} fn - Handler, called with `(n, payload, topic, source)`
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler[]} Array of handler references
+	 * @throws {Error} If DOM not ready or elements not connected
+	 * @throws {TypeError} If `topic` is not a valid topic name or `fn` is not a function
+	 */
+	subscribe(topic: string, fn: InDomTopicHandler, opts?: InDomEventOptions): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].subscribe(topic, fn, opts);
+		}
+		return a;
+	}
+
+	/**
+	 * Publishes a topic from each object in the array (bubbling up from each element).
+	 * See {@link InDom.emit}.
+	 *
+	 * @param {string} topic - Topic name, e.g. `'cart:add'` (no spaces or dots)
+	 * @param {any} [payload] - Value passed to the subscribers
+	 * @returns {number[]} For each element, the number of subscribers called
+	 * @throws {TypeError} If `topic` is not a valid topic name
+	 * @throws {Error} If an element’s underlying DOM node has been removed
+	 */
+	emit(topic: string, payload?: any): number[] {
+		const a: number[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i].emit(topic, payload);
+		}
+		return a;
+	}
+
+	/**
+	 * For each InDom object in this InDomArray:
+	 * Registers a callback function that runs after the object's internal state
+	 * (listeners, data) has been cleaned up, and just before its element is removed from the DOM.
+	 * 
+	 * @param {(n: InDom) => void} fn - Handler function
+	 * @returns {InDomHandler[]} Array of handlers
+	 * @throws {Error} If any element is disconnected or DOM not ready
+	 */
+	onRemove(fn: (n: InDom) => void): InDomHandler[] {
+		this.#ensureConnected();
+		const a: InDomHandler[] = [];
+		this.forEach(n => a.push(n.onRemove(fn)));
+		return a;
+	}
+
+	/**
+	 * Cleans the internal state of the InDom objects of the array and removes their underlying DOM elements from the document.
+	 * 
+	 * @throws {Error} If any element’s underlying DOM node has been removed
+	 */
+	remove(): void {
+		this.#eachSetter('remove', []);
+	}
+
+	/**
+	 * Executes a function for each InDom in the array.
+	 * 
+	 * @param {(n: InDom, index: number, array: InDom[]) => void} fn - Callback
+	 * @returns {this} The current InDomArray for chaining
+	 */
+	each(fn: (n: InDom, index: number, array: InDom[]) => void): this {
+		this.forEach(fn);
+		return this;
+	}
+
+
+	filter<S extends InDom>(
+		predicate: (value: InDom, index: number, array: InDom[]) => value is S,
+		thisArg?: any
+	): InDomArray;
+	filter(
+		predicate: (value: InDom, index: number, array: InDom[]) => unknown,
+		thisArg?: any
+	): InDomArray;
+	filter(arg: string): InDomArray;
+
+	/**
+	 * Filters the collection.
+	 *
+	 * - If `arg` is a **string** it is treated as a CSS selector and every
+	 *   element that *matches* the selector is kept.
+	 * - If `arg` is a **function** the native `Array.prototype.filter` logic
+	 *   is used: `arg(element, index, array)` should return `true` to keep the
+	 *   item.
+	 *
+	 * In both cases a new `InDomArray` instance is returned, leaving the
+	 * original collection untouched.
+	 * 
+	*/
+	filter(arg: any, thisArg?: any): InDomArray {
+		return new InDomArray(
+			...(typeof arg === 'string'
+				? super.filter(n => {
+					const el = n.el();
+					return el.nodeType === ELEMENT_NODE && (el as Element).matches(arg);
+				})
+				: super.filter(arg))
+		);
+	}
+	/**
+	 * Executes a setter method on all objects.
+	 * 
+	 * @private
+	 * @param {keyof InDom} method - Method name
+	 * @param {any[]} args - Arguments to pass
+	 * @returns {this} The current InDomArray for chaining
+	 */
+	#eachSetter(method: keyof InDom, args: any[]): this {
+		for (let i = 0; i < this.length; i++) {
+			(this[i][method] as any)(...args);
+		}
+		return this;
+	}
+
+	/**
+	 * Registers an outside listener on every element, treating the whole array as one region:
+	 * `fn` runs once per event, and only if the event happened outside all the elements.
+	 * With `once`, the first call removes the listeners of the whole group.
+	 * 
+	 * @private
+	 * @param {'onClickOutside' | 'onFocusOutside'} method - InDom method to register with
+	 * @param {(n: InDom, e: Event) => void} fn - Handler
+	 * @param {InDomEventOptions} [opts] - Event options
+	 * @returns {InDomHandler[]} Array of handlers, one per element
+	 */
+	#outside(
+		method: 'onClickOutside' | 'onFocusOutside',
+		fn: (n: InDom, e: Event) => void,
+		opts?: InDomEventOptions
+	): InDomHandler[] {
+		this.#ensureConnected();
+		if (typeof fn !== 'function') {
+			throw new TypeError('Event handler must be a function', { cause: fn });
+		}
+		const region = Array.from(this, n => n.el());
+		const seen = new WeakSet<Event>();
+		// once applies to the group: an element's own listener also sees clicks inside the others
+		const once = !!opts?.once;
+		const eachOpts = once ? { ...opts, once: false } : opts;
+		let done = false;
+		const guard = (n: InDom, e: Event) => {
+			// every element's listener sees the same event, the first one decides
+			if (done || seen.has(e)) {
+				return;
+			}
+			seen.add(e);
+			const path = e.composedPath();
+			for (let i = 0; i < region.length; i++) {
+				if (path.includes(region[i])) {
+					return;
+				}
+			}
+			if (once) {
+				done = true;
+				const type = method === 'onClickOutside' ? 'clickoutside' : 'focusoutside';
+				for (let i = 0; i < this.length; i++) {
+					// removed elements dropped their listener already
+					if (region[i].isConnected) {
+						this[i].off(type, a[i]);
+					}
+				}
+			}
+			fn(n, e);
+		};
+		const a: InDomHandler[] = new Array(this.length);
+		for (let i = 0; i < this.length; i++) {
+			a[i] = this[i][method](guard, eachOpts);
+		}
+		return a;
+	}
+
+	/**
+	 * Verifies that DOM is ready and every element can be used like a connected one
+	 * (detached mode, detached and kept alive elements included), before any of them is changed.
+	 * 
+	 * @private
+	 * @throws {Error} If DOM not ready or any element disconnected
+	 */
+	#ensureConnected(): void {
+		if (!InDom.isReady() && (this.length === 0 || !this.every(n => InDom.isReady(n.el())))) {
+			throw new Error('DOM content must be loaded first for this operation');
+		}
+		for (let i = 0; i < this.length; i++) {
+			internals.ensureConnected(this[i]);
+		}
+	}
+}
+
+/**
  * Main InDom class — contains a single DOM element per instance and provides a modern,
  * chainable API for querying, manipulation, events, data storage, and lifecycle handling with built-in safety.
  */
@@ -488,454 +1246,2411 @@ export class InDom {
 	 * @private
 	 * @static
 	 */
-	static #ready = false;
+	static #ready = false;
+
+	/**
+	 * Callbacks to run when DOM becomes ready
+	 * @private
+	 * @static
+	 * @type {Function[]}
+	 */
+	static #onReadyFns: Array<() => void> = [];
+
+	/**
+	 * Whether `init()` waits for DOMContentLoaded
+	 * @private
+	 * @static
+	 */
+	static #waiting = false;
+
+	/**
+	 * Whether InDom initializes itself on first use (`InDom.configure({ autoInit })`)
+	 * @private
+	 * @static
+	 */
+	static #autoInit = true;
+
+	/**
+	 * Configured document, `null` for the global one
+	 * @private
+	 * @static
+	 * @type {Document | null}
+	 */
+	static #doc: Document | null = null;
+
+	/**
+	 * Configured root observed by `init()`, `null` for the `<body>` of the document
+	 * @private
+	 * @static
+	 * @type {Document | ShadowRoot | Element | null}
+	 */
+	static #root: Document | ShadowRoot | Element | null = null;
+
+	/**
+	 * Root observed by `init()`
+	 * @private
+	 * @static
+	 * @type {Document | ShadowRoot | Element | null}
+	 */
+	static #mainRoot: Document | ShadowRoot | Element | null = null;
+
+	/**
+	 * Whether `data-*` attribute values are parsed (`InDom.configure({ typedData })`)
+	 * @private
+	 * @static
+	 */
+	static #typedData = false;
+
+	/**
+	 * Types of `data-*` attribute values per data key (`InDom.configure({ dataSchema })`)
+	 * @private
+	 * @static
+	 * @type {Record<string, InDomDataType> | null}
+	 */
+	static #dataSchema: Record<string, InDomDataType> | null = null;
+
+	/**
+	 * Path segments ignored by the nested notation of `getValues()` / `setValues()` (prototype pollution)
+	 * @private
+	 * @static
+	 * @type {string[]}
+	 */
+	static #unsafeKeys = ['__proto__', 'constructor', 'prototype'];
+
+	/**
+	 * Maps DOM elements/documents to their InDom instance
+	 * @private
+	 * @static
+	 * @type {WeakMap<Element | Document, InDom>}
+	 */
+	static #map = new WeakMap<Element | Document, InDom>();
+
+	/**
+	 * Observed roots (`document.body` plus those added with `InDom.observe()`) and their MutationObserver
+	 * @private
+	 * @static
+	 * @type {Map<Document | ShadowRoot | Element, MutationObserver>}
+	 */
+	static #observers = new Map<Document | ShadowRoot | Element, MutationObserver>();
+
+	/**
+	 * Detached objects waiting to be connected, held weakly: dropped when garbage-collected,
+	 * and pruned of connected or destroyed ones when nodes are inserted (skipped when empty)
+	 * @private
+	 * @static
+	 * @type {Set<WeakRef<InDom>>}
+	 */
+	static #pendingRefs = new Set<WeakRef<InDom>>();
+
+	/**
+	 * Drops the entries of `#pendingRefs` whose objects have been garbage-collected
+	 * @private
+	 * @static
+	 * @type {FinalizationRegistry<WeakRef<InDom>>}
+	 */
+	static #pendingGone = new FinalizationRegistry<WeakRef<InDom>>(ref => InDom.#pendingRefs.delete(ref));
+
+	/**
+	 * Number of objects taken out with `.detach()` and not reinserted yet (skips checking added nodes when 0)
+	 * @private
+	 * @static
+	 */
+	static #detachedCount = 0;
+
+	/**
+	 * Scope recording the registrations made while it runs (see `InDom.scope()`)
+	 * @private
+	 * @static
+	 * @type {InDomScope | null}
+	 */
+	static #scope: InDomScope | null = null;
+
+	/**
+	 * Live selector watches registered with `InDom.watch()`
+	 * @private
+	 * @static
+	 * @type {Set<InDomWatcher>}
+	 */
+	static #watchers = new Set<InDomWatcher>();
+
+	/**
+	 * Shared Resize / Intersection observers by key, with the callbacks of each observed element
+	 * and the last entry delivered for it (replayed to callbacks added later)
+	 * @private
+	 * @static
+	 * @type {Map<string, { observer: ResizeObserver | IntersectionObserver, targets: Map<Element, Set<Function>>, last: Map<Element, object> }>}
+	 */
+	static #shared = new Map<string, {
+		observer: ResizeObserver | IntersectionObserver,
+		targets: Map<Element, Set<(entry: any) => void>>,
+		last: Map<Element, ResizeObserverEntry | IntersectionObserverEntry>
+	}>();
+
+	/**
+	 * Topic subscriptions: topic → Map of handler references to their owner and dispatcher
+	 * @private
+	 * @static
+	 * @type {Map<string, Map<InDomHandler, { owner: InDom, fire: Function }>>}
+	 */
+	static #topics = new Map<string, Map<InDomHandler, { owner: InDom, fire: (...args: any[]) => void }>>();
+
+	/**
+	 * Whether debug mode is on (`InDom.debug()`)
+	 * @private
+	 * @static
+	 */
+	static #debug = false;
+
+	/**
+	 * Debug mode: tracked InDom objects (strong references, development only)
+	 * @private
+	 * @static
+	 * @type {Set<InDom>}
+	 */
+	static #live = new Set<InDom>();
+
+	/**
+	 * Debug mode: number of InDom objects cleaned up
+	 * @private
+	 * @static
+	 */
+	static #removed = 0;
+
+	/**
+	 * Event storage: event-type → Map of wrapped handlers to their listener record (namespaces, capture)
+	 * @private
+	 * @type {Record<string, Map<InDomHandler, InDomListener>>}
+	 */
+	#events: Record<string, Map<InDomHandler, InDomListener>> | null = null;
+
+	/**
+	 * Underlying DOM element or document
+	 * @private
+	 * @type {Element | Document | null}
+	 */
+	#el: Element | Document | null = null;
+
+	/**
+	 * AbortController for automatic cleanup of event listeners
+	 * @private
+	 * @type {AbortController}
+	 */
+	#abortController: AbortController | null = null;
+
+	/**
+	 * Internal storage for arbitrary key/value data
+	 * @private
+	 * @type {Map<any, unknown>}
+	 */
+	#data: Map<any, any> | null = null;
+
+	/**
+	 * Data change watchers of `.onDataChange()` / `.bind()`
+	 * @private
+	 * @type {Set<Function> | null}
+	 */
+	#dataWatchers: Set<(k: any, v: any, old: any) => void> | null = null;
+
+	/**
+	 * Deferred setups of a detached object created with `{ detached: true }`, run when it is first connected;
+	 * `null` once connected (or if not created detached)
+	 * @private
+	 * @type {Array<() => void> | null}
+	 */
+	#pending: Array<() => void> | null = null;
+
+	/**
+	 * Exempts the element and its subtree from automatic cleanup (see `.keepAlive()`)
+	 * @private
+	 * @type {boolean}
+	 */
+	#keepAlive = false;
+
+	/**
+	 * Taken out with `.detach()` and not reinserted yet: exempt from automatic cleanup like `#keepAlive`
+	 * @private
+	 * @type {boolean}
+	 */
+	#detached = false;
+
+	/**
+	 * Undo functions recorded in scopes for this object, dropped from their scopes when it is destroyed
+	 * @private
+	 * @type {Array<[InDomScope, () => void]> | null}
+	 */
+	#scoped: Array<[InDomScope, () => void]> | null = null;
+
+	static {
+		internals = {
+			ensureConnected: n => n.#ensureConnected(),
+			isRemoved: n => n.#el === null
+		};
+	}
+
+	/**
+	 * Creates an InDom object that contains an Element or the Document,
+	 * or from an HTML string that produces a single Element.
+	 *
+	 * With `{ detached: true }`, a detached element (e.g. built from an HTML string) can take listeners,
+	 * data and `onRemove` callbacks before it is inserted. Listeners that reach outside the element
+	 * (outside clicks, observers, topic subscriptions …) start when it is first connected through
+	 * `append()`, `prepend()`, `before()` or `after()`. If it is never connected, nothing holds it:
+	 * it is garbage-collected with the element. Its descendants are in detached mode too.
+	 *
+	 * @param {Document | Element | string} source - DOM Element or HTML string of a DOM element
+	 * @param {InDomCreateOptions} [opts] - Options (`detached`)
+	 * @throws {TypeError} If the source is not a valid DOM Element or HTML string of a single DOM Element, or options are invalid
+	 */
+	constructor(source: Document | Element | string, opts?: InDomCreateOptions) {
+		InDom.#autoStart();
+
+		// If an instance for this source already exists, return it
+		if (InDom.#isElement(source) || InDom.#isDocument(source)) {
+			if (InDom.#map.has(source)) {
+				return InDom.#map.get(source)!;
+			}
+		}
+
+		// If source is a Document, store and map directly
+		if (InDom.#isDocument(source)) {
+			this.#el = source;
+			this.#track();
+			return;
+		}
+
+		// Otherwise normalize it
+		const el = InDom.#normalizeChild(source);
+
+		// Must be an Element
+		if (!InDom.#isElement(el)) {
+			throw new TypeError(
+				'Expected a DOM Element, Document, or HTML string of a DOM Element',
+				{ cause: el }
+			);
+		}
+		if (opts !== undefined && !InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+
+		this.#el = el;
+
+		if (opts?.detached && !el.isConnected) {
+			this.#enterPending();
+		}
+	}
+
+	/**
+	 * Enters detached mode: mapped right away (weakly) to keep a single instance per element.
+	 * @private
+	 */
+	#enterPending(): void {
+		this.#pending = [];
+		const ref = new WeakRef(this);
+		InDom.#pendingRefs.add(ref);
+		InDom.#pendingGone.register(this, ref);
+		this.#track();
+	}
+
+	/**
+	 * Starts the global MutationObserver that automatically destroys InDom objects
+	 * when their underlying elements are removed from the DOM.
+	 *
+	 * Called automatically on first use (creating an InDom object, `onReady()`, `watch()`),
+	 * unless disabled with `InDom.configure({ autoInit: false })`; importing InDom has no side effects.
+	 * Safe to call multiple times; subsequent calls have no effect once initialized.
+	 *
+	 * @throws {Error} If there is no document (outside the browser, without `InDom.configure({ document })`)
+	 */
+	static init(): void {
+		if (this.#ready) {
+			return;
+		}
+		const doc = InDom.#document();
+		const root = InDom.#root ?? doc.body;
+
+		// Wait for <body> if DOMContentLoaded fired before body exists (rare but possible)
+		if (!root) {
+			if (!this.#waiting) {
+				this.#waiting = true;
+				doc.addEventListener('DOMContentLoaded', () => {
+					this.#waiting = false;
+					this.init();
+				}, { once: true });
+			}
+			return;
+		}
+
+		InDom.#observeRoot(root);
+		this.#mainRoot = root;
+		this.#ready = true;
+
+		// Fire queued ready callbacks
+		if (this.#onReadyFns.length > 0) {
+			this.#onReadyFns.forEach(fn => fn());
+			this.#onReadyFns.length = 0;
+		}
+	}
+
+	/**
+	 * Checks whether the DOM content has been loaded
+	 * and the global InDom MutationObserver is initialized.
+	 * 
+	 * @returns {boolean} True if InDom is ready
+	 */
+	static isReady(): boolean;
+	/**
+	 * Checks whether removals of a node are observed, i.e. whether it is inside `document.body`
+	 * (once InDom is initialized) or inside a root added with `InDom.observe()`.
+	 *
+	 * @param {Node | InDom} node - Node or InDom object to check
+	 * @returns {boolean} True if the node gets automatic cleanup
+	 */
+	static isReady(node: Node | InDom): boolean;
+	static isReady(node?: Node | InDom): boolean {
+		if (node === undefined) {
+			return InDom.#ready;
+		}
+		return InDom.#isObserved(node instanceof InDom ? node.el() : node);
+	}
+
+	/**
+	 * Registers a function to run when the DOM is ready
+	 * (executed immediately if already ready).
+	 *
+	 * @param {() => void} fn - The callback function
+	 * @throws {TypeError} If the handler is not a function
+	 */
+	static onReady(fn: () => void): void {
+		if (typeof fn !== 'function') {
+			throw new TypeError('onReady handler must be a function', { cause: fn });
+		}
+
+		InDom.#autoStart();
+		if (this.#ready) {
+			fn();
+			return;
+		}
+
+		this.#onReadyFns.push(fn);
+	}
+
+	/**
+	 * Configures the environment InDom operates on; only the given options change.
+	 *
+	 * - `autoInit` - initialize on first use (default `true`); with `false`, call `InDom.init()` when ready
+	 * - `root` - root observed for automatic cleanup instead of `document.body`
+	 * - `document` - document used instead of the global one (queries, HTML parsing, events, observers
+	 *   use it and its window), e.g. a jsdom / happy-dom window in Node or in tests
+	 * - `typedData` - `getData()` / `getAllData()` parse `data-*` attribute values: `'3'` → `3`, `'false'` → `false`,
+	 *   `'null'` → `null`, `'{"a":1}'` → `{ a: 1 }` (other strings, and numbers that would lose precision, stay strings);
+	 *   `setData()` writes objects and arrays to existing `data-*` attributes as JSON
+	 * - `dataSchema` - types per data key (`'string'`, `'number'`, `'boolean'`, `'json'`, `'auto'` or a converter function),
+	 *   applied in either mode
+	 *
+	 * Changing `root` or `document` after initialization moves the observer of `init()` to the new root.
+	 *
+	 * @param {InDomConfig} config - Options to change
+	 * @throws {TypeError} If the config is not an object, `autoInit` or `typedData` is not a boolean,
+	 *         `document` is not a Document, `root` is not a Document, ShadowRoot, Element or InDom object,
+	 *         or `dataSchema` is not an object of valid types
+	 */
+	static configure(config: InDomConfig): void {
+		if (!InDom.#isObject(config)) {
+			throw new TypeError('Config must be an object', { cause: config });
+		}
+		const { autoInit, root, document: doc, typedData, dataSchema } = config;
+		if (autoInit !== undefined && typeof autoInit !== 'boolean') {
+			throw new TypeError('autoInit must be a boolean if defined', { cause: autoInit });
+		}
+		if (typedData !== undefined && typeof typedData !== 'boolean') {
+			throw new TypeError('typedData must be a boolean if defined', { cause: typedData });
+		}
+		if (dataSchema != null) {
+			if (!InDom.#isObject(dataSchema)) {
+				throw new TypeError('dataSchema must be an object if defined', { cause: dataSchema });
+			}
+			for (const k in dataSchema) {
+				const t = dataSchema[k];
+				if (typeof t !== 'function' && !['string', 'number', 'boolean', 'json', 'auto'].includes(t)) {
+					throw new TypeError(`Invalid data type for '${k}'`, { cause: t });
+				}
+			}
+		}
+		if (doc != null && !InDom.#isDocument(doc)) {
+			throw new TypeError('document must be a Document if defined', { cause: doc });
+		}
+		const rootNode = root == null ? null : InDom.#checkRoot(root);
+
+		if (autoInit !== undefined) {
+			InDom.#autoInit = autoInit;
+		}
+		if (typedData !== undefined) {
+			InDom.#typedData = typedData;
+		}
+		if (dataSchema !== undefined) {
+			InDom.#dataSchema = dataSchema && { ...dataSchema };
+		}
+		if (doc === undefined && root === undefined) {
+			return;
+		}
+		if (doc !== undefined) {
+			InDom.#doc = doc;
+		}
+		if (root !== undefined) {
+			InDom.#root = rootNode;
+		}
+
+		// move the observer of init() to the new document / root
+		if (InDom.#ready || InDom.#waiting) {
+			if (InDom.#mainRoot) {
+				InDom.unobserve(InDom.#mainRoot);
+				InDom.#mainRoot = null;
+			}
+			InDom.#ready = false;
+			InDom.#waiting = false;
+			InDom.init();
+		}
+	}
+
+	/**
+	 * Turns debug mode on or off. In debug mode InDom keeps track of its live objects, listeners and data
+	 * (see `InDom.stats()`), warns when the same function is registered twice for an event type
+	 * on an element, and warns when `onRemove` callbacks throw during cleanup. Objects tracked before debug mode
+	 * was turned on are not counted. Debug mode does not change what InDom does, only what it reports.
+	 *
+	 * Debug mode holds strong references to the tracked objects until they are cleaned up: development only.
+	 *
+	 * @param {boolean} [on=true] - Turn debug mode on (`false` turns it off and clears the counts)
+	 * @throws {TypeError} If `on` is not a boolean
+	 */
+	static debug(on: boolean = true): void {
+		if (typeof on !== 'boolean') {
+			throw new TypeError('Debug flag must be a boolean', { cause: on });
+		}
+		if (!on) {
+			InDom.#live.clear();
+			InDom.#removed = 0;
+		}
+		InDom.#debug = on;
+	}
+
+	/**
+	 * Returns a snapshot of what InDom tracks (debug mode): live objects, listeners per type,
+	 * data entries, cleaned up objects, observed roots and watches.
+	 *
+	 * @returns {InDomStats} The snapshot
+	 * @throws {Error} If debug mode is off
+	 */
+	static stats(): InDomStats {
+		if (!InDom.#debug) {
+			throw new Error('InDom.stats() requires debug mode, call InDom.debug(true) first');
+		}
+		const listeners: Record<string, number> = {};
+		let listenerCount = 0;
+		let data = 0;
+		for (const n of InDom.#live) {
+			for (const t in n.#events) {
+				const size = n.#events[t]!.size;
+				listeners[t] = (listeners[t] ?? 0) + size;
+				listenerCount += size;
+			}
+			data += n.#data?.size ?? 0;
+		}
+		return {
+			instances: InDom.#live.size,
+			listeners,
+			listenerCount,
+			data,
+			removed: InDom.#removed,
+			roots: InDom.#observers.size,
+			watchers: InDom.#watchers.size
+		};
+	}
+
+	/**
+	 * Observes an extra root for removed elements, so InDom objects inside it are cleaned up
+	 * automatically like those in `document.body`: a shadow root, the document of a same-origin
+	 * iframe, or the whole `document` (to include `<head>`). Each root gets its own MutationObserver.
+	 *
+	 * Safe to call multiple times for the same root.
+	 *
+	 * @param {Document | ShadowRoot | Element | InDom} root - Root to observe
+	 * @throws {TypeError} If `root` is not a Document, ShadowRoot, Element or InDom object
+	 */
+	static observe(root: Document | ShadowRoot | Element | InDom): void {
+		const node = InDom.#checkRoot(root);
+		if (!InDom.#observers.has(node)) {
+			InDom.#observeRoot(node);
+			InDom.#record(() => InDom.unobserve(node));
+		}
+	}
+
+	/**
+	 * Stops observing a root added with `InDom.observe()` (or `document.body`);
+	 * InDom objects inside it no longer get automatic cleanup.
+	 *
+	 * @param {Document | ShadowRoot | Element | InDom} root - Observed root
+	 * @returns {boolean} True if the root was observed
+	 * @throws {TypeError} If `root` is not a Document, ShadowRoot, Element or InDom object
+	 */
+	static unobserve(root: Document | ShadowRoot | Element | InDom): boolean {
+		root = InDom.#checkRoot(root);
+		const mo = InDom.#observers.get(root);
+		if (!mo) {
+			return false;
+		}
+		mo.disconnect();
+		InDom.#observers.delete(root);
+		return true;
+	}
+
+	/**
+	 * Watches for elements matching a selector: calls `onAdd` once for each matching element that is
+	 * already in the DOM or gets connected later (e.g. via `setHtml()`, `append()` or fetched HTML),
+	 * and `onRemove` when such an element is removed and its InDom object cleaned up.
+	 *
+	 * Uses the observers of InDom (`document.body` and roots added with `InDom.observe()`), so it
+	 * reacts to inserted and removed elements, not to elements that start matching through attribute changes.
+	 * Before the DOM is ready, existing elements are handled once it is.
+	 *
+	 * @param {string} selector - CSS selector to match
+	 * @param {{ onAdd?: (n: InDom) => void, onRemove?: (n: InDom) => void, container?: ParentNode | InDom }} opts -
+	 *        Callbacks (at least one) and the container to watch in (default `document`)
+	 * @returns {() => void} Unwatch function: stops the watch and releases its `onRemove` callbacks
+	 * @throws {TypeError} If `selector` is not a non-empty string, or no callback is a function
+	 * @throws {DOMException} If `selector` is not a valid CSS selector
+	 */
+	static watch(
+		selector: string,
+		opts: { onAdd?: (n: InDom) => void, onRemove?: (n: InDom) => void, container?: ParentNode | InDom }
+	): () => void {
+		if (typeof selector !== 'string' || !selector.trim()) {
+			throw new TypeError('Selector must be a non-empty string', { cause: selector });
+		}
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object', { cause: opts });
+		}
+		const { onAdd, onRemove, container } = opts as { onAdd?: (n: InDom) => void, onRemove?: (n: InDom) => void, container?: ParentNode | InDom };
+		if ((onAdd !== undefined && typeof onAdd !== 'function') || (onRemove !== undefined && typeof onRemove !== 'function')
+			|| (!onAdd && !onRemove)) {
+			throw new TypeError('onAdd and/or onRemove must be functions', { cause: opts });
+		}
+
+		const w: InDomWatcher = {
+			selector,
+			container: container instanceof InDom ? container.el() as ParentNode : container ?? InDom.#document(),
+			onAdd,
+			onRemove,
+			seen: new WeakSet(),
+			handlers: new Map()
+		};
+		// validates the selector
+		w.container.querySelector(selector);
+		InDom.#watchers.add(w);
+
+		InDom.onReady(() => {
+			if (!InDom.#watchers.has(w)) {
+				return;
+			}
+			const els = w.container.querySelectorAll(selector);
+			for (let i = 0; i < els.length; i++) {
+				InDom.#handleWatched(w, els[i]);
+			}
+		});
+
+		const unwatch = () => {
+			if (!InDom.#watchers.delete(w)) {
+				return;
+			}
+			for (const [n, h] of w.handlers) {
+				n.off('onRemove', h);
+			}
+			w.handlers.clear();
+		};
+		InDom.#record(unwatch);
+		return unwatch;
+	}
+
+	/**
+	 * Creates an empty scope. Use `s.run(fn)` to record the registrations made in `fn`
+	 * and `s.dispose()` to undo them. See {@link InDom.scope}.
+	 *
+	 * @returns {InDomScope} A new scope
+	 */
+	static createScope(): InDomScope {
+		return new InDomScope();
+	}
+
+	/**
+	 * Runs `fn` with a scope active and returns the scope. The listeners (`.on()`, shorthand, gesture,
+	 * observer and topic listeners), `onRemove` callbacks, data entries, `InDom.observe()` roots and
+	 * `InDom.watch()` watches registered synchronously in `fn` are recorded, on any element,
+	 * so `s.dispose()` undoes all of them at once. Scopes can be nested; registrations go to the innermost.
+	 *
+	 * @param {(s: InDomScope) => void} fn - Function whose registrations are recorded
+	 * @param {InDomScope} [scope] - Scope to record into (default: a new scope)
+	 * @returns {InDomScope} The scope
+	 * @throws {TypeError} If `fn` is not a function or `scope` is not an InDomScope
+	 * @throws {Error} If `scope` has been disposed
+	 */
+	static scope(fn: (s: InDomScope) => void, scope: InDomScope = new InDomScope()): InDomScope {
+		if (typeof fn !== 'function') {
+			throw new TypeError('Scope function must be a function', { cause: fn });
+		}
+		if (!(scope instanceof InDomScope)) {
+			throw new TypeError('Scope must be an InDomScope', { cause: scope });
+		}
+		if (scope.disposed) {
+			throw new Error('Scope has been disposed');
+		}
+		const prev = InDom.#scope;
+		InDom.#scope = scope;
+		try {
+			fn(scope);
+		} finally {
+			InDom.#scope = prev;
+		}
+		return scope;
+	}
+
+	/**
+	 * Queries the DOM using a CSS selector and returns an InDomArray of InDom objects
+	 * for each matching element. Returns an empty array if no matches found.
+	 *
+	 * @param {string} selector - The CSS selector to match
+	 * @param {ParentNode | InDom} [container=document] - The container to search within
+	 * @returns {InDomArray} - InDomArray object of InDom instances
+	 */
+	static get(selector: string, container?: ParentNode | InDom): InDomArray {
+		if (container) {
+			if (container instanceof InDom) {
+				container = container.el() as ParentNode;
+			}
+			selector = InDom.#fixSelector(selector);
+		} else {
+			container = InDom.#document();
+		}
+
+		const elements = container.querySelectorAll(selector);
+		const length = elements.length;
+		const arr = new InDomArray(length);
+		for (let i = 0; i < length; i++) {
+			arr[i] = InDom.#wrap(elements[i])!;
+		}
+		return arr;
+	}
+
+	/**
+	 * Queries the DOM using a CSS selector and returns an InDom object
+	 * for the first matching element, or `null` if none found.
+	 *
+	 * @param {string} selector - The CSS selector to match
+	 * @param {ParentNode | InDom} [container=document] - The container element or InDom object to search within
+	 * @returns {InDom | null} - InDom object for the first match, or null if none
+	 */
+	static getOne(selector: string, container?: ParentNode | InDom): InDom | null {
+		if (container) {
+			if (container instanceof InDom) {
+				container = container.el() as ParentNode;
+			}
+			selector = InDom.#fixSelector(selector);
+		} else {
+			container = InDom.#document();
+		}
+		return InDom.#wrap(container.querySelector(selector));
+	}
+
+	/**
+	 * Fetches the element with the specified ID and returns an InDom object that contains it.
+	 * Returns `null` if no element with the given ID is found.
+	 *
+	 * @param {string} id - The ID of the element to fetch
+	 * @returns {InDom | null} - InDom object or null if not found
+	 */
+	static getById(id: string): InDom | null {
+		const el = InDom.#document().getElementById(id);
+		return el ? InDom.#wrap(el) : null;
+	}
+
+	/**
+	 * Harvests form-field values into a plain object.
+	 * 
+	 * - `getValues()` → all fields in document
+	 * - `getValues('name','size')` → only listed fields
+	 * - `getValues(container)` → all fields, scoped to container
+	 * - `getValues('name','size',container)` → scoped to container
+	 * - `getValues('name_')` → groups dynamic fields name_123, name_456 …
+	 * - `getValues([])` → all fields, no underscore grouping
+	 * - `getValues(container, { nested: true })` → nested by bracket / dot notation (see below)
+	 *
+	 * @param {...(string | string[] | InDom)} args - Field names or an InDom container
+	 * @returns {InDomValuesMap} Map of field names → normalized values
+	 * @throws {TypeError} If a given field name is not a non-empty string
+	 */
+	static getValues(...args: (string | string[] | InDom)[]): InDomValuesMap;
+	/**
+	 * Harvests form-field values into an object nested by the bracket and dot notation of their names:
+	 * `user[address][city]` and `user.address.city` → `{ user: { address: { city } } }`, numeric keys
+	 * create arrays (`items[0][qty]`) and `[]` appends (`tags[]`; arrays of values are spread, `null` is skipped).
+	 * `items[][qty]` appends a new object when the last one already has `qty`. Names are not grouped by
+	 * underscore, and a given name also selects the fields nested under it (`user` → `user[address][city]`).
+	 *
+	 * @param {...(string | string[] | InDom | InDomGetValuesOptions)} args - Field names, an InDom container, and `{ nested: true }` last
+	 * @returns {InDomNestedValues} Nested map of values
+	 * @throws {TypeError} If a given field name is not a non-empty string
+	 */
+	static getValues(...args: [...(string | string[] | InDom)[], InDomGetValuesOptions & { nested: true }]): InDomNestedValues;
+	static getValues(...args: [...(string | string[] | InDom)[], InDomGetValuesOptions]): InDomValuesMap | InDomNestedValues;
+	static getValues(...args: (string | string[] | InDom | InDomGetValuesOptions)[]): InDomValuesMap | InDomNestedValues {
+		let len = args.length;
+		const groupsSet = new Set<string>(); // which names will be grouped by _
+		let forceGroup = false;              // if true, groups all names with _
+		let container: Document | Element = InDom.#document();
+		let selectors: string[];
+		let nested = false;
+
+		// Detect options, container and normalize arguments
+		if (len > 0 && InDom.#isObject(args[len - 1])) {
+			nested = !!(args.pop() as InDomGetValuesOptions).nested;
+			len--;
+		}
+		if (len > 0 && args[len - 1] instanceof InDom) {
+			const c = args.pop();
+			len--;
+			container = (c as InDom).el();
+		}
+
+		// No names specified → select all [name]
+		if (len === 0) {
+			selectors = ["[name]"];
+			forceGroup = true;
+		} else {
+			let names: string[];
+
+			// If first argument is array
+			if (Array.isArray(args[0])) {
+				names = args[0] as string[];
+				len = names.length;
+			} else {
+				names = args as string[];
+			}
+
+			if (len === 0) {
+				selectors = ["[name]"];
+			} else {
+				selectors = new Array(len);
+				for (let i = 0; i < len; i++) {
+					const name = names[i];
+					if (typeof name !== "string" || !name) {
+						throw new TypeError("Field names, if given, must be non-empty strings", { cause: name });
+					}
+					if (name.endsWith("_")) {
+						groupsSet.add(name.slice(0, -1));
+						selectors[i] = `[name^="${name}"]`;
+					} else if (nested) {
+						selectors[i] = `[name="${name}"], [name^="${name}\\["], [name^="${name}."]`;
+					} else {
+						selectors[i] = `[name="${name}"]`;
+					}
+				}
+			}
+		}
+
+		// The result object
+		const result: InDomValuesMap = {};
+		const tree: InDomNestedValues = {};
+		const groups = new Set<string>(); // checkbox / radio names already read
+
+		// Collect all matching fields
+		const fields = InDom.get(selectors.join(", "), container);
+
+		fields.each(n => {
+			const el = n.el();
+			if (!InDom.#isElement(el)) {
+				return;
+			}
+
+			const tag = el.tagName.toLowerCase();
+			if (tag !== "input" && tag !== "textarea" && tag !== "select") {
+				return;
+			}
+
+			const name = n.getAttr("name")!;
+
+			// Nested: one value per checkbox / radio group, each other field on its own (for [] appends)
+			if (nested) {
+				const type = (el as HTMLInputElement).type;
+				if (tag === "input" && (type === "checkbox" || type === "radio")) {
+					if (groups.has(name)) {
+						return;
+					}
+					groups.add(name);
+				}
+				InDom.#setPath(tree, InDom.#parsePath(name), n.getValue(container));
+				return;
+			}
+
+			const value = n.getValue(container);
+			const underscoreIndex = name.indexOf("_");
+
+			// Handle groupable fields
+			if (underscoreIndex === -1) {
+				result[name] = value;
+				return;
+			}
+
+			const key = name.slice(0, underscoreIndex);
+			if (forceGroup || groupsSet.has(key)) {
+				if (!InDom.#isObject(result[key])) {
+					result[key] = {};
+				}
+				(result[key] as Record<string, InDomValue>)[name.slice(underscoreIndex + 1)] = value;
+				return;
+			}
+
+			result[name] = value;
+		});
+
+		return nested ? tree : result;
+	}
+
+	/**
+	 * Fills form fields from a map of values: the inverse of `getValues()`, with the same grouping,
+	 * so `{ age: { 34: '20' } }` sets the field `age_34`. Each field is set like `setValue()`: checkbox
+	 * groups and radios get the checked values, multi-selects the selected options; `null` clears a field,
+	 * other values are coerced to strings and `FileList` values are skipped (file inputs cannot be set).
+	 *
+	 * With `nested`, the map is read like `getValues()` with `nested` returns it: the field `user[address][city]`
+	 * (or `user.address.city`) gets `map.user.address.city`; checkbox and radio groups and multi-selects named
+	 * `tags[]` get the whole `map.tags` array, and the nth other field named `tags[]` (or `items[][qty]`) its nth item.
+	 *
+	 * @param {Record<string, any>} map - Values by field name, e.g. from `getValues()` (or `JSON.parse()` of a draft)
+	 * @param {Document | Element | InDom} [container=document] - Container of the fields
+	 * @param {InDomSetValuesOptions} [opts] - Options (`clearMissing`, `strict`, `nested`)
+	 * @returns {string[]} Field names of the map with no matching field (paths in bracket notation with `nested`)
+	 * @throws {TypeError} If `map` or `opts` is not an object
+	 * @throws {Error} If `strict` is set and the map has keys with no matching field
+	 */
+	static setValues(map: Record<string, any>, container?: Document | Element | InDom, opts: InDomSetValuesOptions = {}): string[] {
+		if (!InDom.#isObject(map)) {
+			throw new TypeError('Values must be an object', { cause: map });
+		}
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const scope = container instanceof InDom ? container.el() : container ?? InDom.#document();
+		const fields = InDom.#namedFields(scope as ParentNode);
+
+		// The value of each field found in the map
+		const assigned = new Map<InDom, unknown>();
+		const unknown: string[] = [];
+
+		if (opts.nested) {
+			const found = new Set<string>();
+			for (const [name, list] of fields) {
+				const path = InDom.#parsePath(name);
+				let k = 0;
+				for (let i = 0; i < list.length; i++) {
+					const el = list[i].el() as HTMLInputElement | HTMLSelectElement;
+					// Groups and multi-selects take a whole [] array, other fields one item each
+					const all = el.type === 'checkbox' || el.type === 'radio' || (el.tagName === 'SELECT' && el.multiple);
+					const hit = InDom.#getPath(map, path, all ? -1 : k++);
+					if (hit) {
+						found.add(hit[0]);
+						if (hit[1] !== undefined) {
+							assigned.set(list[i], hit[1]);
+						}
+					}
+				}
+			}
+			const leaves: string[] = [];
+			InDom.#leafPaths(map, '', leaves);
+			for (const key of leaves) {
+				if (!found.has(key)) {
+					unknown.push(key);
+				}
+			}
+		} else {
+			// Flatten groups: { age: { 34: '20' } } → age_34
+			const values = new Map<string, any>();
+			for (const key in map) {
+				const v = map[key];
+				if (InDom.#isObject(v)) {
+					for (const sub in v) {
+						values.set(`${key}_${sub}`, v[sub]);
+					}
+				} else {
+					values.set(key, v);
+				}
+			}
+			for (const [name, v] of values) {
+				const list = fields.get(name);
+				if (!list) {
+					unknown.push(name);
+					continue;
+				}
+				for (let i = 0; i < list.length; i++) {
+					assigned.set(list[i], v);
+				}
+			}
+		}
+
+		if (opts.strict && unknown.length > 0) {
+			throw new Error(`No field for: ${unknown.join(', ')}`, { cause: unknown });
+		}
+
+		for (const [n, v] of assigned) {
+			// FileList (or any other object): file inputs cannot be set
+			if ((v !== null && typeof v === 'object' && !Array.isArray(v)) || (n.el() as HTMLInputElement).type === 'file') {
+				continue;
+			}
+			n.setValue(v == null ? [] : Array.isArray(v) ? v.map(String) : String(v), scope);
+		}
+
+		if (opts.clearMissing) {
+			const keep = ['hidden', 'file', 'submit', 'button', 'reset', 'image'];
+			for (const list of fields.values()) {
+				for (let i = 0; i < list.length; i++) {
+					if (!assigned.has(list[i]) && !keep.includes((list[i].el() as HTMLInputElement).type)) {
+						list[i].setValue([], scope);
+					}
+				}
+			}
+		}
+
+		return unknown;
+	}
+
+	/**
+	 * Validates the fields of a container against rules and the native constraint attributes of the fields
+	 * (`required`, `pattern`, `min`, `max`, `minlength`, `maxlength`, `type="email"`); rules given for a field
+	 * override its attributes. Built-in rules: `required`, `min` / `max`, `minLength` / `maxLength`, `pattern`,
+	 * `email`, `match` (another field) and `custom` (sync or async). Each field reports its first error.
+	 *
+	 * Optionally sets `aria-invalid`, writes messages into the DOM, and revalidates live on `input` / `change`
+	 * through listeners of the container in the `validate` namespace: removed with `.off('.validate')`,
+	 * replaced by the next live `validate()` of the container, and cleaned up with it.
+	 *
+	 * @param {Document | Element | InDom} container - Container of the fields (e.g. a form)
+	 * @param {Record<string, InDomFieldRules>} [rules] - Rules by field name
+	 * @param {InDomValidateOptions} [opts] - Options (`native`, `aria`, `messages`, `live`, `onValidate`)
+	 * @returns {Promise<InDomValidationResult>} Validity, first error by field name and the values
+	 * @throws {TypeError} If the container, the rules or the options are invalid
+	 * @throws {Error} If `live` is set and the container is not connected
+	 */
+	static validate(
+		container: Document | Element | InDom,
+		rules: Record<string, InDomFieldRules> = {},
+		opts: InDomValidateOptions = {}
+	): Promise<InDomValidationResult> {
+		if (!(container instanceof InDom) && !InDom.#isElement(container) && !InDom.#isDocument(container)) {
+			throw new TypeError('Container must be a Document, Element or InDom object', { cause: container });
+		}
+		const c = container instanceof InDom ? container : new InDom(container);
+		if (!InDom.#isObject(rules)) {
+			throw new TypeError('Rules must be an object if defined', { cause: rules });
+		}
+		for (const name in rules) {
+			InDom.#checkRules(name, rules[name]);
+		}
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const { native = true, aria = false, messages = false, live = false, onValidate } = opts;
+		if (typeof messages !== 'boolean' && typeof messages !== 'function') {
+			throw new TypeError('messages must be a boolean or a function if defined', { cause: messages });
+		}
+		if (live !== true && live !== false && live !== 'input' && live !== 'change') {
+			throw new TypeError(`live must be a boolean, 'input' or 'change' if defined`, { cause: live });
+		}
+		if (onValidate !== undefined && typeof onValidate !== 'function') {
+			throw new TypeError('onValidate must be a function if defined', { cause: onValidate });
+		}
+
+		// validates some fields (all if `only` is null), renders unless a newer run superseded it
+		const run = async (only: string[] | null, current: () => boolean = () => true): Promise<InDomValidationResult> => {
+			const root = c.el() as ParentNode;
+			const fields = InDom.#namedFields(root);
+			const values = InDom.getValues([], c);
+			const names = only ?? Array.from(new Set([...Object.keys(rules), ...(native ? fields.keys() : [])]));
+			const found = await Promise.all(names.map(name => {
+				const list = fields.get(name) ?? null;
+				const r = InDom.#fieldRules(list, native, rules[name]);
+				return InDom.#checkField(values[name] as InDomValue ?? null, r, values, list?.[0] ?? null);
+			}));
+
+			const result: InDomValidationResult = { valid: true, errors: {}, values };
+			for (let i = 0; i < names.length; i++) {
+				if (found[i] !== null) {
+					result.errors[names[i]] = found[i]!;
+					result.valid = false;
+				}
+			}
+			if ((aria || messages) && current() && c.#el) {
+				for (let i = 0; i < names.length; i++) {
+					const list = fields.get(names[i]);
+					if (list) {
+						InDom.#showError(c, names[i], list, found[i], aria, messages);
+					}
+				}
+			}
+			return result;
+		};
+
+		if (live) {
+			c.off('.validate');
+			const runs = new Map<string, number>();
+			c.on(live === true ? 'input.validate change.validate' : live + '.validate', (_, e) => {
+				const name = (e.target as Element | null)?.getAttribute?.('name');
+				if (!name || (!rules[name] && !native)) {
+					return;
+				}
+				// the field and the fields that must match it; only the latest run of a field renders
+				const only = [name, ...Object.keys(rules).filter(k => k !== name && rules[k].match === name)];
+				const id = (runs.get(name) ?? 0) + 1;
+				runs.set(name, id);
+				run(only, () => runs.get(name) === id).then(r => {
+					if (runs.get(name) === id) {
+						onValidate?.(r);
+					}
+				}).catch(err => {
+					// a throwing `custom` rule or `onValidate`: report it like the error of a listener
+					setTimeout(() => {
+						throw err;
+					});
+				});
+			});
+		}
+
+		return run(null);
+	}
+
+	/**
+	 * Publishes a topic to every subscriber (see `.subscribe()`), regardless of where its element is.
+	 * Subscribers run synchronously in subscription order; use `n.emit()` to reach only the
+	 * subscribers of an element and its ancestors.
+	 *
+	 * @param {string} topic - Topic name, e.g. `'cart:add'` (no spaces or dots)
+	 * @param {any} [payload] - Value passed to the subscribers
+	 * @returns {number} The number of subscribers called
+	 * @throws {TypeError} If `topic` is not a valid topic name
+	 */
+	static emit(topic: string, payload?: any): number {
+		InDom.#checkTopic(topic);
+		return InDom.#publish(topic, payload, null, null);
+	}
+
+	/**
+	 * Starts a MutationObserver on a root that destroys InDom objects when their underlying
+	 * elements are removed from it (no-op if the root is already observed).
+	 * @private
+	 * @param {Document | ShadowRoot | Element} root - Root to observe
+	 */
+	static #observeRoot(root: Document | ShadowRoot | Element): void {
+		if (this.#observers.has(root)) {
+			return;
+		}
+		const doc = root.ownerDocument ?? (root as Document);
+
+		// Reuse a single TreeWalker for traversing removed subtrees
+		const walker = doc.createTreeWalker(
+			root,
+			SHOW_ELEMENT,
+			null
+		);
+
+		const mo = new (InDom.#window().MutationObserver)(records => {
+			// maybeGone: elements possibly removed from DOM
+			// (we defer final check to a microtask to avoid transient removals)
+			const maybeGone = new Set<InDom>();
+			// added: elements to match against live watches
+			const added: Element[] = [];
+
+			for (let r = 0; r < records.length; r++) {
+				const rec = records[r];
+
+				if (this.#watchers.size > 0 || this.#detachedCount > 0) {
+					for (let i = 0; i < rec.addedNodes.length; i++) {
+						if (rec.addedNodes[i].nodeType === ELEMENT_NODE) {
+							added.push(rec.addedNodes[i] as Element);
+						}
+					}
+				}
+
+				// Use indexed loop for best performance, no Array.from allocation
+				for (let i = 0; i < rec.removedNodes.length; i++) {
+					const node = rec.removedNodes[i];
+					if (node.nodeType !== ELEMENT_NODE) continue;
+
+					// only Element nodes reach this point
+					const el = node as Element;
+
+					// Check direct node
+					if (this.#map.has(el)) {
+						maybeGone.add(this.#map.get(el)!);
+					}
+
+					InDom.#collectShadow(el, maybeGone);
+
+					// Walk its subtree
+					walker.currentNode = el;
+					let sub: Node | null;
+					while ((sub = walker.nextNode()) && el.contains(sub)) {
+						if (this.#map.has(sub as Element)) {
+							maybeGone.add(this.#map.get(sub as Element)!);
+						}
+						InDom.#collectShadow(sub as Element, maybeGone);
+					}
+				}
+			}
+
+			// Cleanup and watches after DOM settles
+			if (maybeGone.size > 0 || added.length > 0) {
+				queueMicrotask(() => {
+					for (const n of maybeGone) {
+						// another observed root may have cleaned it up already; kept alive / detached subtrees stay
+						if (n.#el && !n.#el.isConnected && !InDom.#isHeld(n.#el)) {
+							n.remove(); // triggers internal cleanup
+						}
+					}
+					if (this.#detachedCount > 0) {
+						for (let i = 0; i < added.length; i++) {
+							if (added[i].isConnected) {
+								InDom.#reattach(added[i]);
+							}
+						}
+					}
+					for (const w of this.#watchers) {
+						for (let i = 0; i < added.length; i++) {
+							if (added[i].isConnected) {
+								InDom.#matchWatcher(w, added[i]);
+							}
+						}
+					}
+				});
+			}
+		});
+
+		mo.observe(root, { childList: true, subtree: true });
+		this.#observers.set(root, mo);
+	}
+
+	/**
+	 * Collects the detached objects waiting to be connected in a node about to be inserted
+	 * (before insertion, since an inserted fragment is emptied).
+	 * @private
+	 * @param {Node} node - Node to insert
+	 * @param {InDom[]} out - Collected objects
+	 */
+	static #collectPending(node: Node, out: InDom[]): void {
+		if (InDom.#pendingRefs.size === 0) {
+			return;
+		}
+		if (node.nodeType !== ELEMENT_NODE && node.nodeType !== DOCUMENT_FRAGMENT_NODE) {
+			return;
+		}
+		for (const ref of InDom.#pendingRefs) {
+			const n = ref.deref();
+			// collected, connected or destroyed since
+			if (!n || !n.#pending) {
+				InDom.#pendingRefs.delete(ref);
+				continue;
+			}
+			if (node.contains(n.#el)) {
+				out.push(n);
+			}
+		}
+	}
+
+	/**
+	 * Runs the deferred setups of the collected detached objects that are now connected.
+	 * @private
+	 * @param {InDom[]} list - Objects collected by {@link InDom.#collectPending}
+	 */
+	static #connectPending(list: InDom[]): void {
+		for (let i = 0; i < list.length; i++) {
+			if (list[i].#pending && list[i].#el?.isConnected) {
+				list[i].#flushPending();
+			}
+		}
+	}
+
+	/**
+	 * Tests whether a node is exempt from automatic cleanup: it or an ancestor (in its tree, across
+	 * shadow roots) has been kept alive or detached.
+	 * @private
+	 * @param {Node} node - Node to test
+	 * @returns {boolean} True if the node is held
+	 */
+	static #isHeld(node: Node): boolean {
+		let cur: Node | null = node;
+		while (cur) {
+			const n = InDom.#map.get(cur as Element);
+			if (n && (n.#keepAlive || n.#detached)) {
+				return true;
+			}
+			cur = cur.parentNode ?? (cur.nodeType === DOCUMENT_FRAGMENT_NODE ? (cur as ShadowRoot).host ?? null : null);
+		}
+		return false;
+	}
+
+	/**
+	 * Tests whether a node is inside a detached mode element that has not been connected yet.
+	 * @private
+	 * @param {Node | null} node - Node to test (with its ancestors)
+	 * @returns {boolean} True if it or an ancestor is in detached mode
+	 */
+	static #inPending(node: Node | null): boolean {
+		while (node) {
+			const n = InDom.#map.get(node as Element);
+			if (n && n.#pending) {
+				return true;
+			}
+			node = node.parentNode;
+		}
+		return false;
+	}
+
+	/**
+	 * Clears the detached state of the objects in a reinserted subtree, so it gets automatic cleanup again.
+	 * @private
+	 * @param {Element} el - Inserted element
+	 */
+	static #reattach(el: Element): void {
+		const all = [el, ...Array.from(el.querySelectorAll('*'))];
+		for (let i = 0; i < all.length; i++) {
+			const n = InDom.#map.get(all[i]);
+			if (n && n.#detached) {
+				n.#detached = false;
+				InDom.#detachedCount--;
+			}
+		}
+	}
+
+	/**
+	 * Adds an undo function to the active scope, if any.
+	 * @private
+	 * @param {() => void} disposer - Undoes a registration
+	 * @param {InDom} [owner] - Object the registration belongs to: its destruction drops the undo function
+	 */
+	static #record(disposer: () => void, owner?: InDom): void {
+		const scope = InDom.#scope;
+		if (!scope) {
+			return;
+		}
+		scope.add(disposer);
+		if (owner) {
+			(owner.#scoped ??= []).push([scope, disposer]);
+		}
+	}
+
+	/**
+	 * Validates and unwraps the root of `InDom.observe()` / `InDom.unobserve()`.
+	 * @private
+	 * @param {unknown} root - Root to check
+	 * @returns {Document | ShadowRoot | Element} The root node
+	 * @throws {TypeError} If `root` is not a Document, ShadowRoot, Element or InDom object
+	 */
+	static #checkRoot(root: unknown): Document | ShadowRoot | Element {
+		if (root instanceof InDom) {
+			root = root.el();
+		}
+		if (InDom.#isElement(root) || InDom.#isDocument(root)
+			|| (!!root && typeof root === 'object' && (root as Node).nodeType === DOCUMENT_FRAGMENT_NODE
+				&& !!(root as ShadowRoot).host)) {
+			return root as Document | ShadowRoot | Element;
+		}
+		throw new TypeError('Root must be a Document, ShadowRoot, Element or InDom object', { cause: root });
+	}
+
+	/**
+	 * Runs a watch for an added element and its matching descendants.
+	 * @private
+	 * @param {InDomWatcher} w - The watch
+	 * @param {Element} el - Added element
+	 */
+	static #matchWatcher(w: InDomWatcher, el: Element): void {
+		if (w.container !== el && !w.container.contains(el)) {
+			return;
+		}
+		if (el.matches(w.selector)) {
+			InDom.#handleWatched(w, el);
+		}
+		const els = el.querySelectorAll(w.selector);
+		for (let i = 0; i < els.length; i++) {
+			InDom.#handleWatched(w, els[i]);
+		}
+	}
+
+	/**
+	 * Calls the callbacks of a watch for a matching element, once per InDom object.
+	 * @private
+	 * @param {InDomWatcher} w - The watch
+	 * @param {Element} el - Matching element
+	 */
+	static #handleWatched(w: InDomWatcher, el: Element): void {
+		const n = InDom.#wrap(el)!;
+		if (w.seen.has(n)) {
+			return;
+		}
+		w.seen.add(n);
+		if (w.onRemove) {
+			w.handlers.set(n, n.onRemove(x => {
+				w.handlers.delete(x);
+				w.onRemove!(x);
+			}));
+		}
+		w.onAdd?.(n);
+	}
+
+	/**
+	 * Adds the InDom objects inside the (observed) shadow root of a removed host.
+	 * @private
+	 * @param {Element} host - Possible shadow host
+	 * @param {Set<InDom>} out - Collected objects
+	 */
+	static #collectShadow(host: Element, out: Set<InDom>): void {
+		const sr = host.shadowRoot;
+		if (!sr || !this.#observers.has(sr)) {
+			return;
+		}
+		const all = sr.querySelectorAll('*');
+		for (let i = 0; i < all.length; i++) {
+			if (this.#map.has(all[i])) {
+				out.add(this.#map.get(all[i])!);
+			}
+			InDom.#collectShadow(all[i], out);
+		}
+	}
+
+	/**
+	 * Tests whether a node is inside an observed root.
+	 * @private
+	 * @param {Node} node - Node to test
+	 * @returns {boolean} True if removals of the node are observed
+	 */
+	static #isObserved(node: Node): boolean {
+		for (const root of this.#observers.keys()) {
+			if (root === node || root.contains(node)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * Initializes InDom on first use, if enabled and a document is available.
+	 * @private
+	 */
+	static #autoStart(): void {
+		if (!InDom.#ready && !InDom.#waiting && InDom.#autoInit
+			&& (InDom.#doc || typeof document !== 'undefined')) {
+			InDom.init();
+		}
+	}
+
+	/**
+	 * Returns the document InDom operates on (configured or global).
+	 * @private
+	 * @returns {Document} The document
+	 * @throws {Error} If there is no document
+	 */
+	static #document(): Document {
+		const doc = InDom.#doc ?? (typeof document === 'undefined' ? null : document);
+		if (!doc) {
+			throw new Error('No document available, use InDom.configure({ document }) outside the browser');
+		}
+		return doc;
+	}
 
 	/**
-	 * Callbacks to run when DOM becomes ready
+	 * Returns the window of the document InDom operates on, the source of DOM constructors
+	 * (events, observers, `DOMRect` …).
 	 * @private
-	 * @static
-	 * @type {Function[]}
+	 * @returns {Window & typeof globalThis} The window
+	 * @throws {Error} If there is no document, or it has no window
 	 */
-	static #onReadyFns: Array<() => void> = [];
+	static #window(): Window & typeof globalThis {
+		const doc = InDom.#document();
+		if (!doc.defaultView) {
+			throw new Error('The document has no window (defaultView)', { cause: doc });
+		}
+		return doc.defaultView as Window & typeof globalThis;
+	}
 
 	/**
-	 * Maps DOM elements/documents to their InDom instance
+	 * Realm-independent Element check (elements of same-origin iframes are not `instanceof Element` of this window).
 	 * @private
-	 * @static
-	 * @type {WeakMap<Element | Document, InDom>}
+	 * @param {unknown} o - The value to test
+	 * @returns {boolean} True if the value is an Element
 	 */
-	static #map = new WeakMap<Element | Document, InDom>();
+	static #isElement(o: unknown): o is Element {
+		return !!o && typeof o === 'object' && (o as Node).nodeType === ELEMENT_NODE;
+	}
 
 	/**
-	 * Event storage: event-type → Set of wrapped handlers
+	 * Realm-independent Document check.
 	 * @private
-	 * @type {Record<string, Set<InDomHandler>>}
+	 * @param {unknown} o - The value to test
+	 * @returns {boolean} True if the value is a Document
 	 */
-	#events: Record<string, Set<InDomHandler>> | null = null;
+	static #isDocument(o: unknown): o is Document {
+		return !!o && typeof o === 'object' && (o as Node).nodeType === DOCUMENT_NODE;
+	}
 
 	/**
-	 * Underlying DOM element or document
+	 * Tests whether a value is a plain object (not an array, null, or class instance).
 	 * @private
-	 * @type {Element | Document | null}
+	 * @param {any} o - The value to test
+	 * @returns {boolean} True if the value is a plain object
 	 */
-	#el: Element | Document | null = null;
+	static #isObject(o: unknown): o is Record<string, unknown> {
+		return !!o && typeof o === 'object' && !Array.isArray(o) && o.constructor === Object;
+	}
 
 	/**
-	 * AbortController for automatic cleanup of event listeners
+	 * Return an InDom object that contains an existing DOM Element, or returns null if is invalid.
 	 * @private
-	 * @type {AbortController}
+	 * @param {Element | null} el - The underlying DOM element
+	 * @returns {InDom | null} Existing InDom instance or a new one, or null if invalid
 	 */
-	#abortController: AbortController | null = null;
+	static #wrap(el: Element | null): InDom | null {
+		if (!el) return null;
+		if (this.#map.has(el)) {
+			return this.#map.get(el)!;
+		}
+		const n = new InDom(el);
+		n.#track();
+		return n;
+	}
 
 	/**
-	 * Internal storage for arbitrary key/value data
+	 * Flattens a single array argument if needed, preserving variadic usage.
 	 * @private
-	 * @type {Map<any, unknown>}
+	 * @param {(InDomChild | InDomChild[])[]} arr - Possibly nested array of children
+	 * @returns {InDomChild[]} Flattened array
 	 */
-	#data: Map<any, any> | null = null;
+	static #flattenSingleArray(arr: (InDomChild | InDomChild[])[]): InDomChild[] {
+		return (arr.length === 1 && Array.isArray(arr[0]))
+			? arr[0] as InDomChild[]
+			: arr as InDomChild[];
+	}
 
 	/**
-	 * Creates an InDom object that contains an Element or the Document,
-	 * or from an HTML string that produces a single Element.
-	 *
-	 * @param {Document | Element | string} source - DOM Element or HTML string of a DOM element
-	 * @throws {TypeError} If the source is not a valid DOM Element or HTML string of a single DOM Element
+	 * Convert incoming content to a DOM Node.
+	 * @private
+	 * @param {string | Node | InDom} child
+	 * @returns {Node}
 	 */
-	constructor(source: Document | Element | string) {
-		// If an instance for this source already exists, return it
-		if (source instanceof Element || source instanceof Document) {
-			if (InDom.#map.has(source)) {
-				return InDom.#map.get(source)!;
-			}
+	static #normalizeChild(child: string | Node | InDom): Node {
+		if (child instanceof InDom) {
+			return child.el() as Node; // InDom.el() returns Element | Document
+		}
+		if (typeof child === 'object' && child !== null && typeof (child as Node).nodeType === 'number') {
+			return child as Node;
 		}
 
-		// If source is a Document, store and map directly
-		if (source instanceof Document) {
-			this.#el = source;
-			InDom.#map.set(source, this);
-			return;
+		const str = String(child).trim();
+		if (!str) {
+			return InDom.#document().createTextNode('');
 		}
 
-		// Otherwise normalize it
-		const el = InDom.#normalizeChild(source);
+		const frag = InDom.#document().createRange().createContextualFragment(str);
 
-		// Must be an Element
-		if (!(el instanceof Element)) {
-			throw new TypeError(
-				'Expected a DOM Element, Document, or HTML string of a DOM Element',
-				{ cause: el }
-			);
+		// If there's exactly one element child, return that element
+		if (frag.childNodes.length === 1 && frag.firstChild?.nodeType === ELEMENT_NODE) {
+			return frag.firstChild;
 		}
 
-		this.#el = el;
+		// If there's exactly one text node, return that text node
+		if (frag.childNodes.length === 1 && frag.firstChild?.nodeType === TEXT_NODE) {
+			return frag.firstChild;
+		}
+
+		// Otherwise, return the fragment
+		return frag;
 	}
 
 	/**
-	 * Starts the global MutationObserver that automatically destroys InDom objects
-	 * when their underlying elements are removed from the DOM.
-	 * 
-	 * Safe to call multiple times; subsequent calls have no effect once initialized.
+	 * Prepend :scope to relative combinators (> , ~ , +) if needed
+	 * @private
+	 * @param {string} selector - Raw CSS selector
+	 * @returns {string} - Selector safe for element-rooted queries
 	 */
-	static init(): void {
-		if (this.#ready) {
-			return;
+	static #fixSelector(selector: string): string {
+		const commaPos = selector.indexOf(',');
+		//single selector
+		if (commaPos === -1) {
+			selector = selector.trim();
+			const c = selector[0];
+			return (c === '>' || c === '~' || c === '+') ? ':scope ' + selector : selector;
 		}
-
-		// Wait for <body> if DOMContentLoaded fired before body exists (rare but possible)
-		if (!document.body) {
-			document.addEventListener('DOMContentLoaded', () => this.init(), { once: true });
-			return;
+		// multiple selectors
+		const parts = selector.split(',');
+		for (let i = 0; i < parts.length; i++) {
+			const s = parts[i].trim();
+			const c = s[0];
+			parts[i] = (c === '>' || c === '~' || c === '+') ? ':scope ' + s : s;
 		}
+		return parts.join(',');
+	}
 
-		// Reuse a single TreeWalker for traversing removed subtrees
-		const walker = document.createTreeWalker(
-			document.body,
-			NodeFilter.SHOW_ELEMENT,
-			null
-		);
+	/**
+	 * Collects the named form fields of a container, by name.
+	 * @private
+	 * @param {ParentNode} root - Container
+	 * @returns {Map<string, InDom[]>} Fields by name, in document order
+	 */
+	static #namedFields(root: ParentNode): Map<string, InDom[]> {
+		const fields = new Map<string, InDom[]>();
+		InDom.get('input[name], textarea[name], select[name]', root).each(n => {
+			const name = n.getAttr('name')!;
+			const list = fields.get(name);
+			list ? list.push(n) : fields.set(name, [n]);
+		});
+		return fields;
+	}
 
-		const mo = new MutationObserver(records => {
-			// maybeGone: elements possibly removed from DOM
-			// (we defer final check to a microtask to avoid transient removals)
-			const maybeGone = new Set<InDom>();
+	/**
+	 * Splits a field name in bracket / dot notation into its path:
+	 * `user[address][city]` and `user.address.city` → `['user', 'address', 'city']`, `tags[]` → `['tags', '']`.
+	 * A name that is not valid notation is a path of its own.
+	 * @private
+	 * @param {string} name - Field name
+	 * @returns {string[]} Path segments (`''` for `[]`)
+	 */
+	static #parsePath(name: string): string[] {
+		const m = /^([^[\].]+)((?:\[[^[\]]*\]|\.[^[\].]+)*)$/.exec(name);
+		if (!m || !m[2]) {
+			return [name];
+		}
+		const path = [m[1]];
+		for (const [, bracket, dot] of m[2].matchAll(/\[([^[\]]*)\]|\.([^[\].]+)/g)) {
+			path.push(bracket ?? dot);
+		}
+		return path;
+	}
 
-			for (let r = 0; r < records.length; r++) {
-				const rec = records[r];
+	/**
+	 * Sets a value at a path of a nested map, creating objects, or arrays for numeric keys and `[]`.
+	 * A `[]` at the end appends the value (spreading arrays, skipping `null`); in the middle it appends
+	 * a new object unless the last one lacks the next key. Paths through `__proto__`, `constructor` or `prototype` are ignored.
+	 * @private
+	 * @param {InDomNestedValues} tree - Nested map
+	 * @param {string[]} path - Path from `#parsePath()`
+	 * @param {InDomValue} value - Value to set
+	 */
+	static #setPath(tree: InDomNestedValues, path: string[], value: InDomValue): void {
+		if (path.some(seg => InDom.#unsafeKeys.includes(seg))) {
+			return;
+		}
+		let node: any = tree;
+		const last = path.length - 1;
+		for (let i = 0; i < last; i++) {
+			const key = path[i];
+			const next = path[i + 1];
+			const array = next === '' || /^\d+$/.test(next);
+			if (key === '') {
+				const prev = node[node.length - 1];
+				if (!array && InDom.#isObject(prev) && !Object.hasOwn(prev, next)) {
+					node = prev;
+				} else {
+					const child = array ? [] : {};
+					node.push(child);
+					node = child;
+				}
+				continue;
+			}
+			let child = Object.hasOwn(node, key) ? node[key] : undefined;
+			if (Array.isArray(child)) {
+				// a[0] and a[x]: the array becomes an object
+				if (!array) {
+					child = node[key] = Object.assign({}, child);
+				}
+			} else if (!InDom.#isObject(child) || next === '') {
+				child = node[key] = array ? [] : {};
+			}
+			node = child;
+		}
+		const key = path[last];
+		if (key !== '') {
+			node[key] = value;
+		} else if (Array.isArray(value)) {
+			node.push(...value);
+		} else if (value !== null) {
+			node.push(value);
+		}
+	}
 
-				// Use indexed loop for best performance, no Array.from allocation
-				for (let i = 0; i < rec.removedNodes.length; i++) {
-					const node = rec.removedNodes[i];
-					if (node.nodeType !== Node.ELEMENT_NODE) continue;
+	/**
+	 * Reads the value of a path in a nested map for `InDom.setValues()`.
+	 * @private
+	 * @param {unknown} map - Nested map
+	 * @param {string[]} path - Path from `#parsePath()`
+	 * @param {number} k - Item taken for `[]` (the field's index among the fields of its name), `-1` for a whole final `[]` array
+	 * @returns {[string, unknown] | undefined} The path in bracket notation (up to the array of a final `[]`) and the value, or undefined if the path is not in the map
+	 */
+	static #getPath(map: unknown, path: string[], k: number): [string, unknown] | undefined {
+		let node: any = map;
+		let key = '';
+		for (let i = 0; i < path.length; i++) {
+			let seg = path[i];
+			if (seg === '') {
+				if (!Array.isArray(node)) {
+					return undefined;
+				}
+				if (i === path.length - 1) {
+					return [key, k < 0 ? node : node[k]];
+				}
+				seg = String(Math.max(k, 0));
+			}
+			if (node === null || typeof node !== 'object' || InDom.#unsafeKeys.includes(seg) || !Object.hasOwn(node, seg)) {
+				return undefined;
+			}
+			node = node[seg];
+			key = i ? `${key}[${seg}]` : seg;
+		}
+		return [key, node];
+	}
 
-					// only Element nodes reach this point
-					const el = node as Element;
+	/**
+	 * Lists the paths, in bracket notation, of the values of a nested map for `InDom.setValues()`.
+	 * Arrays holding no objects or arrays are values themselves.
+	 * @private
+	 * @param {unknown} v - Nested map or value
+	 * @param {string} key - Path of `v`
+	 * @param {string[]} out - Paths found
+	 */
+	static #leafPaths(v: unknown, key: string, out: string[]): void {
+		if (InDom.#isObject(v) || (Array.isArray(v) && v.some(x => InDom.#isObject(x) || Array.isArray(x)))) {
+			for (const sub in v) {
+				InDom.#leafPaths((v as any)[sub], key ? `${key}[${sub}]` : sub, out);
+			}
+		} else {
+			out.push(key);
+		}
+	}
 
-					// Check direct node
-					if (this.#map.has(el)) {
-						maybeGone.add(this.#map.get(el)!);
-					}
+	/**
+	 * Validates the rules of one field for `InDom.validate()`.
+	 * @private
+	 * @param {string} name - Field name
+	 * @param {unknown} r - Rules
+	 * @throws {TypeError} If the rules are not an object or a rule is unknown or invalid
+	 */
+	static #checkRules(name: string, r: unknown): void {
+		if (!InDom.#isObject(r)) {
+			throw new TypeError(`Rules of '${name}' must be an object`, { cause: r });
+		}
+		for (const rule in r) {
+			const v = r[rule];
+			let ok: boolean;
+			switch (rule) {
+				case 'required':
+				case 'email':
+					ok = typeof v === 'boolean';
+					break;
+				case 'min':
+				case 'max':
+				case 'minLength':
+				case 'maxLength':
+					ok = typeof v === 'number' && !Number.isNaN(v);
+					break;
+				case 'pattern':
+					ok = v instanceof RegExp || typeof v === 'string';
+					break;
+				case 'match':
+					ok = typeof v === 'string' && v !== '';
+					break;
+				case 'custom':
+					ok = typeof v === 'function';
+					break;
+				case 'messages':
+					ok = InDom.#isObject(v);
+					break;
+				default:
+					throw new TypeError(`Unknown validation rule '${rule}' of '${name}'`, { cause: r });
+			}
+			if (!ok) {
+				throw new TypeError(`Invalid '${rule}' rule of '${name}'`, { cause: v });
+			}
+		}
+	}
 
-					// Walk its subtree
-					walker.currentNode = el;
-					let sub: Node | null;
-					while ((sub = walker.nextNode()) && el.contains(sub)) {
-						if (sub instanceof Element && this.#map.has(sub)) {
-							maybeGone.add(this.#map.get(sub)!);
-						}
-					}
-				}
+	/**
+	 * Merges the native constraint attributes of a field with its rules (rules win).
+	 * @private
+	 * @param {InDom[] | null} list - Fields of the name (a radio / checkbox group has several)
+	 * @param {boolean} native - Read the constraint attributes
+	 * @param {InDomFieldRules} [rules] - Rules given for the field
+	 * @returns {InDomFieldRules} Effective rules
+	 */
+	static #fieldRules(list: InDom[] | null, native: boolean, rules?: InDomFieldRules): InDomFieldRules {
+		const r: InDomFieldRules = {};
+		if (native && list) {
+			const el = list[0].el() as HTMLInputElement;
+			if (list.some(n => n.hasAttr('required'))) {
+				r.required = true;
+			}
+			const pattern = el.getAttribute('pattern');
+			if (pattern) {
+				r.pattern = pattern;
+			}
+			// numeric bounds only (dates and times keep their native validation)
+			const min = parseFloat(el.getAttribute('min') ?? '');
+			const max = parseFloat(el.getAttribute('max') ?? '');
+			if ((el.type === 'number' || el.type === 'range') && !Number.isNaN(min)) {
+				r.min = min;
+			}
+			if ((el.type === 'number' || el.type === 'range') && !Number.isNaN(max)) {
+				r.max = max;
 			}
+			const minLength = parseInt(el.getAttribute('minlength') ?? '', 10);
+			const maxLength = parseInt(el.getAttribute('maxlength') ?? '', 10);
+			if (!Number.isNaN(minLength)) {
+				r.minLength = minLength;
+			}
+			if (!Number.isNaN(maxLength)) {
+				r.maxLength = maxLength;
+			}
+			if (el.type === 'email') {
+				r.email = true;
+			}
+		}
+		return rules ? { ...r, ...rules } : r;
+	}
 
-			// Cleanup after DOM settles
-			if (maybeGone.size > 0) {
-				queueMicrotask(() => {
-					for (const n of maybeGone) {
-						if (!n.el().isConnected) {
-							n.remove(); // triggers internal cleanup
-						}
-					}
-				});
+	/**
+	 * Checks a value against the rules of its field.
+	 * @private
+	 * @param {InDomValue} value - Field value
+	 * @param {InDomFieldRules} r - Effective rules
+	 * @param {InDomValuesMap} values - All values (for `match` and `custom`)
+	 * @param {InDom | null} n - The (first) field, `null` if there is no field of the name
+	 * @returns {Promise<string | null>} The first error message, or `null` if valid
+	 */
+	static async #checkField(value: InDomValue, r: InDomFieldRules, values: InDomValuesMap, n: InDom | null): Promise<string | null> {
+		const m = r.messages ?? {};
+		if (value === null || value === '' || value.length === 0) {
+			return r.required ? m.required ?? 'This field is required' : null;
+		}
+		const list = Array.isArray(value) ? value : typeof value === 'string' ? [value] : [];
+		if (r.min !== undefined || r.max !== undefined) {
+			const num = Array.isArray(value) ? value.length : Number(value);
+			if (r.min !== undefined && !(num >= r.min)) {
+				return m.min ?? `Must be at least ${r.min}`;
 			}
-		});
+			if (r.max !== undefined && !(num <= r.max)) {
+				return m.max ?? `Must be at most ${r.max}`;
+			}
+		}
+		if (typeof value === 'string' && r.minLength !== undefined && value.length < r.minLength) {
+			return m.minLength ?? `Must be at least ${r.minLength} characters`;
+		}
+		if (typeof value === 'string' && r.maxLength !== undefined && value.length > r.maxLength) {
+			return m.maxLength ?? `Must be at most ${r.maxLength} characters`;
+		}
+		if (r.pattern !== undefined) {
+			const re = typeof r.pattern === 'string' ? new RegExp(`^(?:${r.pattern})$`, 'u') : r.pattern;
+			if (!list.every(v => { re.lastIndex = 0; return re.test(v); })) {
+				return m.pattern ?? 'Invalid format';
+			}
+		}
+		if (r.email && !list.every(v => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v))) {
+			return m.email ?? 'Invalid email address';
+		}
+		if (r.match !== undefined && JSON.stringify(value) !== JSON.stringify(values[r.match] ?? null)) {
+			return m.match ?? `Must match ${r.match}`;
+		}
+		if (r.custom) {
+			const res = await r.custom(value, values, n);
+			if (typeof res === 'string') {
+				return res;
+			}
+			if (res === false) {
+				return m.custom ?? 'Invalid value';
+			}
+		}
+		return null;
+	}
 
-		mo.observe(document.body, { childList: true, subtree: true });
-		this.#ready = true;
+	/**
+	 * Renders the validation state of a field: `aria-invalid` and / or its message element.
+	 * @private
+	 * @param {InDom} c - Container
+	 * @param {string} name - Field name
+	 * @param {InDom[]} list - Fields of the name
+	 * @param {string | null} msg - Error message, `null` if valid
+	 * @param {boolean} aria - Set `aria-invalid`
+	 * @param {InDomValidateOptions['messages']} messages - Message element option
+	 */
+	static #showError(
+		c: InDom,
+		name: string,
+		list: InDom[],
+		msg: string | null,
+		aria: boolean,
+		messages: InDomValidateOptions['messages']
+	): void {
+		if (aria) {
+			for (let i = 0; i < list.length; i++) {
+				msg === null ? list[i].removeAttr('aria-invalid') : list[i].setAttr('aria-invalid', 'true');
+			}
+		}
+		if (!messages) {
+			return;
+		}
+		let target: InDom | null;
+		if (typeof messages === 'function') {
+			const t = messages(list[0], name);
+			target = t instanceof InDom ? t : InDom.#wrap(t);
+		} else {
+			target = InDom.getOne(`[data-error-for="${name.replace(/["\\]/g, '\\$&')}"]`, c);
+			if (!target && msg !== null) {
+				target = new InDom('<span></span>').setAttr('data-error-for', name);
+				list[list.length - 1].after(target);
+			}
+		}
+		if (target) {
+			const el = target.el() as HTMLElement;
+			el.textContent = msg ?? '';
+			el.hidden = msg === null;
+		}
+	}
 
-		// Fire queued ready callbacks
-		if (this.#onReadyFns.length > 0) {
-			this.#onReadyFns.forEach(fn => fn());
-			this.#onReadyFns.length = 0;
+	/**
+	 * Converts the value of a `data-*` attribute by the schema of its key, or by the typed mode.
+	 * @private
+	 * @param {any} k - Data key
+	 * @param {string} raw - Attribute value
+	 * @returns {any} The converted value
+	 * @throws {Error} If the schema of the key is `'json'` and the value is not valid JSON
+	 */
+	static #parseData(k: any, raw: string): any {
+		const type = InDom.#dataSchema?.[String(k)] ?? (InDom.#typedData ? 'auto' : 'string');
+		if (typeof type === 'function') {
+			return type(raw);
+		}
+		switch (type) {
+			case 'number':
+				return raw.trim() === '' ? NaN : Number(raw);
+			case 'boolean':
+				return !['false', '0', 'off', 'no'].includes(raw.trim().toLowerCase());
+			case 'json':
+				try {
+					return JSON.parse(raw);
+				} catch (e) {
+					throw new Error(`Invalid JSON in data-${String(k)}`, { cause: e });
+				}
+			case 'auto':
+				if (raw === 'true' || raw === 'false') {
+					return raw === 'true';
+				}
+				if (raw === 'null') {
+					return null;
+				}
+				// numbers, unless they would lose precision (long ids stay strings)
+				if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(raw)) {
+					const n = Number(raw);
+					if (/[.eE]/.test(raw) || Number.isSafeInteger(n)) {
+						return n;
+					}
+				}
+				if (raw[0] === '{' || raw[0] === '[') {
+					try {
+						return JSON.parse(raw);
+					} catch {
+						return raw;
+					}
+				}
+				return raw;
 		}
+		return raw;
 	}
 
 	/**
-	 * Checks whether the DOM content has been loaded
-	 * and the global InDom MutationObserver is initialized.
-	 * 
-	 * @returns {boolean} True if InDom is ready
+	 * Converts a value written to a `data-*` attribute: objects and arrays as JSON
+	 * in typed mode or for `'json'` / `'auto'` keys, anything else as a string.
+	 * @private
+	 * @param {any} k - Data key
+	 * @param {any} v - Value
+	 * @returns {any} The attribute value
 	 */
-	static isReady(): boolean {
-		return InDom.#ready;
+	static #serializeData(k: any, v: any): any {
+		const type = InDom.#dataSchema?.[String(k)] ?? (InDom.#typedData ? 'auto' : 'string');
+		if ((type === 'json' || type === 'auto') && v !== null && typeof v === 'object') {
+			return JSON.stringify(v);
+		}
+		return v;
 	}
 
 	/**
-	 * Registers a function to run when the DOM is ready
-	 * (executed immediately if already ready).
-	 *
-	 * @param {() => void} fn - The callback function
-	 * @throws {TypeError} If the handler is not a function
+	 * Resolves the update function of a `.bind()` binding.
+	 * @private
+	 * @param {InDomBinding} how - Binding
+	 * @returns {(t: InDom, v: any, n: InDom) => void} Writes a value to the target
+	 * @throws {TypeError} If the binding is not valid
 	 */
-	static onReady(fn: () => void): void {
-		if (typeof fn !== 'function') {
-			throw new TypeError('onReady handler must be a function', { cause: fn });
+	static #binding(how: InDomBinding): (t: InDom, v: any, n: InDom) => void {
+		if (typeof how === 'function') {
+			return how;
 		}
-
-		if (this.#ready) {
-			fn();
-			return;
+		if (how === 'text') {
+			return (t, v) => {
+				(t.#el as Element).textContent = v == null ? '' : String(v);
+			};
 		}
-
-		this.#onReadyFns.push(fn);
+		if (typeof how === 'string' && how.startsWith('attr:') && how.length > 5) {
+			const name = how.slice(5);
+			return (t, v) => {
+				v == null || v === false ? t.removeAttr(name) : t.setAttr(name, v === true ? '' : v);
+			};
+		}
+		if (typeof how === 'string' && how.startsWith('class:') && how.length > 6) {
+			const name = how.slice(6);
+			return (t, v) => {
+				v ? t.addClass(name) : t.removeClass(name);
+			};
+		}
+		throw new TypeError(`Binding must be 'text', 'attr:<name>', 'class:<name>' or a function`, { cause: how });
 	}
 
 	/**
-	 * Queries the DOM using a CSS selector and returns an InDomArray of InDom objects
-	 * for each matching element. Returns an empty array if no matches found.
-	 *
-	 * @param {string} selector - The CSS selector to match
-	 * @param {ParentNode | InDom} [container=document] - The container to search within
-	 * @returns {InDomArray} - InDomArray object of InDom instances
+	 * Creates the event instance for `.trigger()`, choosing the constructor by type.
+	 * @private
+	 * @param {string} type - Event type
+	 * @param {any} detail - Payload exposed as `e.detail`
+	 * @param {InDomEventInit} [init] - Extra init options
+	 * @returns {Event} The event to dispatch
 	 */
-	static get(selector: string, container?: ParentNode | InDom): InDomArray {
-		if (container) {
-			if (container instanceof InDom) {
-				container = container.el() as ParentNode;
-			}
-			selector = InDom.#fixSelector(selector);
+	static #createEvent(type: string, detail: any, init?: InDomEventInit): Event {
+		const base = { bubbles: true, cancelable: true, ...init };
+		const win = InDom.#window();
+		let e: Event;
+		if (type.includes('mouse') || type.includes('click')) {
+			e = new win.MouseEvent(type, { view: win, ...base });
+		} else if (type === 'focus' || type === 'blur' || type === 'focusin' || type === 'focusout') {
+			e = new win.FocusEvent(type, { view: win, ...base });
+		} else if (type === 'keydown' || type === 'keyup' || type === 'keypress') {
+			e = new win.KeyboardEvent(type, { view: win, ...base });
+		} else if (type === 'input' || type === 'beforeinput') {
+			e = new win.InputEvent(type, { view: win, ...base });
 		} else {
-			container = document;
+			return new win.CustomEvent(type, { ...base, detail });
 		}
-
-		const elements = container.querySelectorAll(selector);
-		const length = elements.length;
-		const arr = new InDomArray(length);
-		for (let i = 0; i < length; i++) {
-			arr[i] = InDom.#wrap(elements[i])!;
+		if (detail !== undefined) {
+			// UIEvent.detail is a read-only number, shadow it with the payload
+			Object.defineProperty(e, 'detail', { value: detail });
 		}
-		return arr;
+		return e;
 	}
 
 	/**
-	 * Queries the DOM using a CSS selector and returns an InDom object
-	 * for the first matching element, or `null` if none found.
-	 *
-	 * @param {string} selector - The CSS selector to match
-	 * @param {ParentNode | InDom} [container=document] - The container element or InDom object to search within
-	 * @returns {InDom | null} - InDom object for the first match, or null if none
+	 * Parses a keyboard shortcut like `'ctrl+shift+k'` or `'g i'` into steps.
+	 * @private
+	 * @param {string} combo - Shortcut string
+	 * @returns {InDomKeyStep[]} Parsed steps
+	 * @throws {TypeError} If the shortcut is empty or a step has no key
 	 */
-	static getOne(selector: string, container?: ParentNode | InDom): InDom | null {
-		if (container) {
-			if (container instanceof InDom) {
-				container = container.el() as ParentNode;
-			}
-			selector = InDom.#fixSelector(selector);
-		} else {
-			container = document;
+	static #parseKeyCombo(combo: string): InDomKeyStep[] {
+		if (typeof combo !== 'string' || !combo.trim()) {
+			throw new TypeError('Key combo must be a non-empty string', { cause: combo });
 		}
-		return InDom.#wrap(container.querySelector(selector));
+		const aliases: Record<string, string> = {
+			esc: 'escape', return: 'enter', space: ' ', plus: '+', del: 'delete',
+			up: 'arrowup', down: 'arrowdown', left: 'arrowleft', right: 'arrowright'
+		};
+		const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad|iPod/.test(navigator.platform);
+		return combo.trim().toLowerCase().split(/\s+/).map(part => {
+			const step: InDomKeyStep = { key: '', ctrl: false, shift: false, alt: false, meta: false };
+			// a trailing '+' is the plus key itself ('ctrl++')
+			const tokens = part.endsWith('++') ? [...part.slice(0, -2).split('+'), '+'] : part.split('+');
+			for (let i = 0; i < tokens.length; i++) {
+				const t = tokens[i];
+				if (t === 'ctrl' || t === 'control') step.ctrl = true;
+				else if (t === 'shift') step.shift = true;
+				else if (t === 'alt' || t === 'option') step.alt = true;
+				else if (t === 'meta' || t === 'cmd' || t === 'command') step.meta = true;
+				else if (t === 'mod') isMac ? step.meta = true : step.ctrl = true;
+				else if (t && !step.key) step.key = aliases[t] ?? t;
+				else throw new TypeError(`Invalid key combo '${combo}'`, { cause: combo });
+			}
+			if (!step.key) {
+				throw new TypeError(`Key combo '${combo}' has no key`, { cause: combo });
+			}
+			return step;
+		});
 	}
 
 	/**
-	 * Fetches the element with the specified ID and returns an InDom object that contains it.
-	 * Returns `null` if no element with the given ID is found.
-	 *
-	 * @param {string} id - The ID of the element to fetch
-	 * @returns {InDom | null} - InDom object or null if not found
+	 * Tests a keyboard event against one shortcut step.
+	 * Shift is enforced for letters, digits and named keys, but not for other single characters
+	 * typed with Shift on many layouts (e.g. `'?'`) unless the step asks for it. Shifted digits
+	 * match by their physical key (`'shift+1'` fires for `!` on the Digit1 key).
+	 * @private
+	 * @param {InDomKeyStep} step - Parsed step
+	 * @param {KeyboardEvent} e - The keyboard event
+	 * @returns {boolean} True if the event matches
 	 */
-	static getById(id: string): InDom | null {
-		const el = document.getElementById(id);
-		return el ? InDom.#wrap(el) : null;
+	static #matchKey(step: InDomKeyStep, e: KeyboardEvent): boolean {
+		if (e.ctrlKey !== step.ctrl || e.altKey !== step.alt || e.metaKey !== step.meta) {
+			return false;
+		}
+		const key = (e.key ?? '').toLowerCase();
+		const symbol = step.key.length === 1 && !/^[a-z0-9]$/.test(step.key);
+		if (e.shiftKey !== step.shift && !(symbol && !step.shift)) {
+			return false;
+		}
+		if (key === step.key) {
+			return true;
+		}
+		const code = (e.code ?? '').toLowerCase();
+		// shift changes the key of digits on most layouts (shift+1 → '!'): match them by the physical key
+		if (step.shift && /^[0-9]$/.test(step.key)) {
+			return code === 'digit' + step.key;
+		}
+		// alt / option may change e.key (e.g. option+k → '˚'), only then fall back to the physical key
+		if (!e.altKey) {
+			return false;
+		}
+		return code === 'key' + step.key || code === 'digit' + step.key;
 	}
 
 	/**
-	 * Harvests form-field values into a plain object.
-	 * 
-	 * - `getValues()` → all fields in document
-	 * - `getValues('name','size')` → only listed fields
-	 * - `getValues(container)` → all fields, scoped to container
-	 * - `getValues('name','size',container)` → scoped to container
-	 * - `getValues('name_')` → groups dynamic fields name_123, name_456 …
-	 * - `getValues([])` → all fields, no underscore grouping
-	 *
-	 * @param {...(string | string[] | InDom)} args - Field names or an InDom container
-	 * @returns {InDomValuesMap} Map of field names → normalized values
-	 * @throws {TypeError} If a given field name is not a non-empty string
+	 * Tests whether an event target is a text-editable field.
+	 * @private
+	 * @param {EventTarget | null} target - The event target
+	 * @returns {boolean} True for input, textarea, select and contenteditable elements
 	 */
-	static getValues(...args: (string | string[] | InDom)[]): InDomValuesMap {
-		let len = args.length;
-		const groupsSet = new Set<string>(); // which names will be grouped by _
-		let forceGroup = false;              // if true, groups all names with _
-		let container: Document | Element = document;
-		let selectors: string[];
-
-		// Detect container and normalize arguments
-		if (len > 0 && args[len - 1] instanceof InDom) {
-			const c = args.pop();
-			len--;
-			container = (c as InDom).el();
+	static #isEditable(target: EventTarget | null): boolean {
+		if (!InDom.#isElement(target)) {
+			return false;
 		}
+		const tag = target.tagName;
+		return tag === 'INPUT' || tag === 'TEXTAREA' || tag === 'SELECT'
+			|| (target as HTMLElement).isContentEditable;
+	}
 
-		// No names specified → select all [name]
-		if (len === 0) {
-			selectors = ["[name]"];
-			forceGroup = true;
-		} else {
-			let names: string[];
-
-			// If first argument is array
-			if (Array.isArray(args[0])) {
-				names = args[0] as string[];
-				len = names.length;
-			} else {
-				names = args as string[];
-			}
+	/**
+	 * Validates the handler and options of a gesture method, and splits the gesture thresholds
+	 * from the event options.
+	 * @private
+	 * @param {Function} fn - Gesture handler
+	 * @param {InDomGestureOptions} opts - Gesture options
+	 * @returns {{ gesture: Pick<InDomGestureOptions, 'maxDistance' | 'maxDuration' | 'delay' | 'minDistance'>, eventOpts: InDomEventOptions }}
+	 * The thresholds and the event options
+	 * @throws {TypeError} If `fn` is not a function, or options are not an object
+	 */
+	static #gestureOptions(fn: Function, opts: InDomGestureOptions): {
+		gesture: Pick<InDomGestureOptions, 'maxDistance' | 'maxDuration' | 'delay' | 'minDistance'>,
+		eventOpts: InDomEventOptions
+	} {
+		if (typeof fn !== 'function') {
+			throw new TypeError('Event handler must be a function', { cause: fn });
+		}
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const { maxDistance, maxDuration, delay, minDistance, ...eventOpts } = opts as InDomGestureOptions;
+		return { gesture: { maxDistance, maxDuration, delay, minDistance }, eventOpts };
+	}
 
-			if (len === 0) {
-				selectors = ["[name]"];
-			} else {
-				selectors = new Array(len);
-				for (let i = 0; i < len; i++) {
-					const name = names[i];
-					if (typeof name !== "string" || !name) {
-						throw new TypeError("Field names, if given, must be non-empty strings", { cause: name });
-					}
-					if (name.endsWith("_")) {
-						groupsSet.add(name.slice(0, -1));
-						selectors[i] = `[name^="${name}"]`;
-					} else {
-						selectors[i] = `[name="${name}"]`;
+	/**
+	 * Registers a callback for an element on a Resize / Intersection observer shared by key.
+	 * The element is observed once per key; the observer is disconnected when no element is left.
+	 * @private
+	 * @param {string} key - Shared observer key (type and options)
+	 * @param {(cb: (entries: any[]) => void) => ResizeObserver | IntersectionObserver} create - Creates the observer
+	 * @param {Element} el - Element to observe
+	 * @param {(entry: any) => void} cb - Called with each entry of the element
+	 * @returns {() => void} Cleanup that removes the callback
+	 */
+	static #observeShared(
+		key: string,
+		create: (cb: (entries: (ResizeObserverEntry | IntersectionObserverEntry)[]) => void) => ResizeObserver | IntersectionObserver,
+		el: Element,
+		cb: (entry: any) => void
+	): () => void {
+		let shared = InDom.#shared.get(key);
+		if (!shared) {
+			const targets = new Map<Element, Set<(entry: any) => void>>();
+			const last = new Map<Element, ResizeObserverEntry | IntersectionObserverEntry>();
+			const observer = create(entries => {
+				for (let i = 0; i < entries.length; i++) {
+					last.set(entries[i].target, entries[i]);
+					const set = targets.get(entries[i].target);
+					if (set) {
+						for (const fn of Array.from(set)) {
+							fn(entries[i]);
+						}
 					}
 				}
-			}
+			});
+			shared = { observer, targets, last };
+			InDom.#shared.set(key, shared);
 		}
+		const { observer, targets, last } = shared;
+
+		let set = targets.get(el);
+		if (!set) {
+			set = new Set();
+			targets.set(el, set);
+			observer.observe(el);
+		} else if (last.has(el)) {
+			// already observed: the initial entry was delivered before, replay it
+			queueMicrotask(() => {
+				if (set!.has(cb)) {
+					cb(last.get(el));
+				}
+			});
+		}
+		set.add(cb);
 
-		// The result object
-		const result: InDomValuesMap = {};
-
-		// Collect all matching fields
-		const fields = InDom.get(selectors.join(", "), container);
-
-		fields.each(n => {
-			const el = n.el();
-			if (!(el instanceof Element)) {
+		return () => {
+			set!.delete(cb);
+			if (set!.size > 0) {
 				return;
 			}
-
-			const tag = el.tagName.toLowerCase();
-			if (tag !== "input" && tag !== "textarea" && tag !== "select") {
-				return;
+			targets.delete(el);
+			last.delete(el);
+			observer.unobserve(el);
+			if (targets.size === 0) {
+				observer.disconnect();
+				InDom.#shared.delete(key);
 			}
+		};
+	}
 
-			const name = n.getAttr("name")!;
-			const value = n.getValue(container);
-			const underscoreIndex = name.indexOf("_");
-
-			// Handle groupable fields
-			if (underscoreIndex === -1) {
-				result[name] = value;
-				return;
+	/**
+	 * Validates event options and splits the InDom extras from the native listener options.
+	 * @private
+	 * @param {InDomEventOptions} opts - Event options
+	 * @returns {{ ns: string[], signal?: AbortSignal, rate: Pick<InDomEventOptions, 'debounce' | 'throttle' | 'frame'> | null, listenerOpts: AddEventListenerOptions }} Parsed options
+	 * @throws {TypeError} If `namespace` is not a string, `signal` is not an AbortSignal,
+	 *         or `debounce` / `throttle` / `frame` are invalid or combined
+	 */
+	static #splitOptions(opts: InDomEventOptions): {
+		ns: string[],
+		signal?: AbortSignal,
+		rate: Pick<InDomEventOptions, 'debounce' | 'throttle' | 'frame'> | null,
+		listenerOpts: AddEventListenerOptions
+	} {
+		const { namespace, debounce, throttle, frame, ...listenerOpts } = opts;
+		if (namespace !== undefined && typeof namespace !== 'string') {
+			throw new TypeError('Namespace must be a string if defined', { cause: namespace });
+		}
+		const signal = listenerOpts.signal;
+		if (signal !== undefined && !(signal instanceof InDom.#window().AbortSignal)) {
+			throw new TypeError('Signal must be an AbortSignal if defined', { cause: signal });
+		}
+		for (const ms of [debounce, throttle]) {
+			if (ms !== undefined && !(typeof ms === 'number' && ms >= 0 && Number.isFinite(ms))) {
+				throw new TypeError('debounce / throttle must be a non-negative number of ms if defined', { cause: ms });
 			}
+		}
+		if ((debounce !== undefined ? 1 : 0) + (throttle !== undefined ? 1 : 0) + (frame ? 1 : 0) > 1) {
+			throw new TypeError('Only one of debounce, throttle or frame can be used', { cause: opts });
+		}
+		return {
+			ns: namespace ? namespace.split('.').filter(Boolean) : [],
+			signal,
+			rate: debounce !== undefined || throttle !== undefined || frame ? { debounce, throttle, frame } : null,
+			listenerOpts
+		};
+	}
 
-			const key = name.slice(0, underscoreIndex);
-			if (forceGroup || groupsSet.has(key)) {
-				if (!InDom.#isObject(result[key])) {
-					result[key] = {};
+	/**
+	 * Wraps a listener so it runs debounced, throttled or once per animation frame.
+	 * @private
+	 * @param {(e: T) => void} fn - Listener to limit (an event, or the arguments of a pseudo event handler)
+	 * @param {Pick<InDomEventOptions, 'debounce' | 'throttle' | 'frame'>} rate - Rate options (one of them set)
+	 * @returns {{ run: (e: T) => void, cancel: () => void }} Limited listener and a cancel for its pending call
+	 */
+	static #rateLimit<T extends object>(
+		fn: (e: T) => void,
+		rate: Pick<InDomEventOptions, 'debounce' | 'throttle' | 'frame'>
+	): { run: (e: T) => void, cancel: () => void } {
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		let last: T | null = null;
+
+		if (rate.frame) {
+			let raf = 0;
+			return {
+				run: e => {
+					last = e;
+					if (!raf) {
+						raf = InDom.#window().requestAnimationFrame(() => {
+							raf = 0;
+							fn(last!);
+						});
+					}
+				},
+				cancel: () => {
+					InDom.#window().cancelAnimationFrame(raf);
+					raf = 0;
 				}
-				(result[key] as Record<string, InDomValue>)[name.slice(underscoreIndex + 1)] = value;
-				return;
-			}
+			};
+		}
 
-			result[name] = value;
-		});
+		const cancel = () => {
+			clearTimeout(timer);
+			timer = undefined;
+			last = null;
+		};
+
+		if (rate.debounce !== undefined) {
+			return {
+				run: e => {
+					clearTimeout(timer);
+					timer = setTimeout(() => {
+						timer = undefined;
+						fn(e);
+					}, rate.debounce);
+				},
+				cancel
+			};
+		}
 
-		return result;
+		// throttle: leading call, then the last event of the burst when the window ends
+		const wait = rate.throttle!;
+		const tick = () => {
+			if (last) {
+				const e = last;
+				last = null;
+				fn(e);
+				timer = setTimeout(tick, wait);
+			} else {
+				timer = undefined;
+			}
+		};
+		return {
+			run: e => {
+				if (timer === undefined) {
+					fn(e);
+					timer = setTimeout(tick, wait);
+				} else {
+					last = e;
+				}
+			},
+			cancel
+		};
 	}
 
 	/**
-	 * Tests whether a value is a plain object (not an array, null, or class instance).
+	 * Combines two abort signals into one that aborts when either does.
+	 * Uses `AbortSignal.any` where available, with a listener-based fallback whose listeners
+	 * on the given signals are removed by the returned release function.
 	 * @private
-	 * @param {any} o - The value to test
-	 * @returns {boolean} True if the value is a plain object
+	 * @param {AbortSignal} a - First signal
+	 * @param {AbortSignal} b - Second signal
+	 * @returns {[AbortSignal, (() => void) | null]} The combined signal, and the release function of the fallback
 	 */
-	static #isObject(o: unknown): o is Record<string, unknown> {
-		return !!o && typeof o === 'object' && !Array.isArray(o) && o.constructor === Object;
+	static #anySignal(a: AbortSignal, b: AbortSignal): [AbortSignal, (() => void) | null] {
+		const win = InDom.#window();
+		if (typeof win.AbortSignal.any === 'function') {
+			return [win.AbortSignal.any([a, b]), null];
+		}
+		const ctrl = new win.AbortController();
+		const listeners = new win.AbortController();
+		for (const s of [a, b]) {
+			if (s.aborted) {
+				ctrl.abort(s.reason);
+				break;
+			}
+			s.addEventListener('abort', () => {
+				ctrl.abort(s.reason);
+				listeners.abort();
+			}, { once: true, signal: listeners.signal });
+		}
+		return [ctrl.signal, () => listeners.abort()];
 	}
 
 	/**
-	 * Return an InDom object that contains an existing DOM Element, or returns null if is invalid.
+	 * Splits event type input into types and namespaces.
+	 * `'click.menu keydown'` → `[{ type: 'click', ns: ['menu'] }, { type: 'keydown', ns: [] }]`,
+	 * `'.menu'` → `[{ type: '', ns: ['menu'] }]`.
 	 * @private
-	 * @param {Element | null} el - The underlying DOM element
-	 * @returns {InDom | null} Existing InDom instance or a new one, or null if invalid
+	 * @param {string | string[]} type - Event type(s), space separated and/or as array
+	 * @returns {{ type: string, ns: string[] }[]} Parsed entries
+	 * @throws {TypeError} If an entry is not a non-empty string
 	 */
-	static #wrap(el: Element | null): InDom | null {
-		if (!el) return null;
-		if (this.#map.has(el)) {
-			return this.#map.get(el)!;
+	static #parseTypes(type: string | string[]): { type: string, ns: string[] }[] {
+		const list = Array.isArray(type) ? type : [type];
+		const out: { type: string, ns: string[] }[] = [];
+		for (let i = 0; i < list.length; i++) {
+			if (typeof list[i] !== 'string' || !list[i].trim()) {
+				throw new TypeError('Event type must be a non-empty string', { cause: list[i] });
+			}
+			const tokens = list[i].trim().split(/\s+/);
+			for (let j = 0; j < tokens.length; j++) {
+				const parts = tokens[j].split('.');
+				out.push({ type: parts[0], ns: parts.slice(1).filter(Boolean) });
+			}
 		}
-		const n = new InDom(el);
-		this.#map.set(el, n);
-		return n;
+		return out;
 	}
 
 	/**
-	 * Flattens a single array argument if needed, preserving variadic usage.
+	 * Parses the `type` filter of `.getListeners()` / `.hasListener()`.
 	 * @private
-	 * @param {(InDomChild | InDomChild[])[]} arr - Possibly nested array of children
-	 * @returns {InDomChild[]} Flattened array
+	 * @param {string} type - Event type(s), optionally namespaced, or namespace only
+	 * @returns {{ type: string, ns: string[] }[]} Parsed entries; `type` is empty for namespace-only entries
+	 * @throws {TypeError} If `type` is not a non-empty string or an entry has neither type nor namespace
 	 */
-	static #flattenSingleArray(arr: (InDomChild | InDomChild[])[]): InDomChild[] {
-		return (arr.length === 1 && Array.isArray(arr[0]))
-			? arr[0] as InDomChild[]
-			: arr as InDomChild[];
+	static #parseFilter(type: string): { type: string, ns: string[] }[] {
+		if (typeof type !== 'string' || !type.trim()) {
+			throw new TypeError('Event type must be a non-empty string', { cause: type });
+		}
+		const types = InDom.#parseTypes(type);
+		for (let i = 0; i < types.length; i++) {
+			if (!types[i].type && types[i].ns.length === 0) {
+				throw new TypeError('Event type or namespace must be given', { cause: type });
+			}
+		}
+		return types;
 	}
 
 	/**
-	 * Convert incoming content to a DOM Node.
+	 * Validates a topic name of `.subscribe()` / `.emit()`.
 	 * @private
-	 * @param {string | Node | InDom} child
-	 * @returns {Node}
+	 * @param {string} topic - Topic name
+	 * @throws {TypeError} If `topic` is not a non-empty string without spaces or dots
 	 */
-	static #normalizeChild(child: string | Node | InDom): Node {
-		if (child instanceof InDom) {
-			return child.el() as Node; // InDom.el() returns Element | Document
-		}
-		if (child instanceof Node) {
-			return child;
-		}
-
-		const str = String(child).trim();
-		if (!str) {
-			return document.createTextNode('');
-		}
-
-		const frag = document.createRange().createContextualFragment(str);
-
-		// If there's exactly one element child, return that element
-		if (frag.childNodes.length === 1 && frag.firstChild?.nodeType === Node.ELEMENT_NODE) {
-			return frag.firstChild;
-		}
-
-		// If there's exactly one text node, return that text node
-		if (frag.childNodes.length === 1 && frag.firstChild?.nodeType === Node.TEXT_NODE) {
-			return frag.firstChild;
+	static #checkTopic(topic: string): void {
+		if (typeof topic !== 'string' || !topic || /[\s.]/.test(topic)) {
+			throw new TypeError('Topic must be a non-empty string without spaces or dots', { cause: topic });
 		}
-
-		// Otherwise, return the fragment
-		return frag;
 	}
 
 	/**
-	 * Prepend :scope to relative combinators (> , ~ , +) if needed
-	 * @private
-	 * @param {string} selector - Raw CSS selector
-	 * @returns {string} - Selector safe for element-rooted queries
-	 */
-	static #fixSelector(selector: string): string {
-		const commaPos = selector.indexOf(',');
-		//single selector
-		if (commaPos === -1) {
-			selector = selector.trim();
-			const c = selector[0];
-			return (c === '>' || c === '~' || c === '+') ? ':scope ' + selector : selector;
+	 * Calls the subscribers of a topic, in subscription order.
+	 * @private
+	 * @param {string} topic - Topic name
+	 * @param {any} payload - Value passed to the subscribers
+	 * @param {InDom | null} source - Emitting InDom object, `null` for `InDom.emit()`
+	 * @param {InDom[] | null} owners - Only call the subscribers of these objects (in this order), `null` for all
+	 * @returns {number} The number of subscribers called
+	 */
+	static #publish(topic: string, payload: any, source: InDom | null, owners: InDom[] | null): number {
+		const subs = InDom.#topics.get(topic);
+		if (!subs) {
+			return 0;
 		}
-		// multiple selectors
-		const parts = selector.split(',');
-		for (let i = 0; i < parts.length; i++) {
-			const s = parts[i].trim();
-			const c = s[0];
-			parts[i] = (c === '>' || c === '~' || c === '+') ? ':scope ' + s : s;
+		const entries = Array.from(subs);
+		const list = owners === null
+			? entries
+			: owners.flatMap(o => entries.filter(([, sub]) => sub.owner === o));
+		let count = 0;
+		for (let i = 0; i < list.length; i++) {
+			const [h, sub] = list[i];
+			// skip subscriptions removed by an earlier subscriber
+			if (subs.get(h) !== sub) {
+				continue;
+			}
+			sub.fire(payload, topic, source);
+			count++;
 		}
-		return parts.join(',');
+		return count;
 	}
 
 	/**
@@ -973,13 +3688,16 @@ export class InDom {
 	prepend(...children: InDomChildren[]): this {
 		this.#checkElement();
 		const flat = InDom.#flattenSingleArray(children);
+		const pending: InDom[] = [];
 		// Reverse order so that the first argument ends up first in the DOM
 		for (const child of [...flat].reverse()) {
 			const node = InDom.#normalizeChild(child);
 			if (node) {
+				InDom.#collectPending(node, pending);
 				(this.#el as Element).prepend(node);
 			}
 		}
+		InDom.#connectPending(pending);
 		return this;
 	}
 
@@ -994,12 +3712,15 @@ export class InDom {
 	append(...children: InDomChildren[]): this {
 		this.#checkElement();
 		const flat = InDom.#flattenSingleArray(children);
+		const pending: InDom[] = [];
 		for (const child of flat) {
 			const node = InDom.#normalizeChild(child);
 			if (node) {
+				InDom.#collectPending(node, pending);
 				(this.#el as Element).appendChild(node);
 			}
 		}
+		InDom.#connectPending(pending);
 		return this;
 	}
 
@@ -1015,12 +3736,15 @@ export class InDom {
 	before(...siblings: InDomChildren[]): this {
 		this.#checkElement(); // runtime + TS narrowing if asserts is added
 		const flat = InDom.#flattenSingleArray(siblings);
+		const pending: InDom[] = [];
 		for (const sib of flat) {
 			const node = InDom.#normalizeChild(sib);
 			if (node) {
+				InDom.#collectPending(node, pending);
 				(this.#el as Element).before(node);
 			}
 		}
+		InDom.#connectPending(pending);
 		return this;
 	}
 	/**
@@ -1038,12 +3762,15 @@ export class InDom {
 	after(...siblings: InDomChildren[]): this {
 		this.#checkElement();
 		const flat = InDom.#flattenSingleArray(siblings);
+		const pending: InDom[] = [];
 		for (const sib of [...flat].reverse()) {
 			const node = InDom.#normalizeChild(sib);
 			if (node) {
+				InDom.#collectPending(node, pending);
 				(this.#el as Element).after(node);
 			}
 		}
+		InDom.#connectPending(pending);
 		return this;
 	}
 
@@ -1051,42 +3778,73 @@ export class InDom {
 	 * Registers an event listener that is automatically removed when the element is
 	 * removed from the DOM (no matter how), preventing memory leaks.
 	 *
-	 * If no handler is provided and the event is a mouse/click event, it is auto-triggered.
+	 * If no handler is provided, the event is triggered instead, built like `.trigger()` builds it.
+	 *
+	 * If a selector is provided, the listener is delegated: it fires only when the event target
+	 * (or its closest ancestor) matches the selector inside this element, and the handler receives
+	 * the InDom object of the matched element. Matching elements added later are covered too.
+	 * With `once`, it is removed after the first matching event.
+	 *
+	 * A `signal` in the options is honored alongside the internal one: aborting it detaches the
+	 * listener and drops it from the InDom bookkeeping, just like `.off()`.
+	 *
+	 * The `debounce` / `throttle` (ms) and `frame` options limit how often the handler runs;
+	 * a pending call is cancelled when the listener is removed.
 	 *
 	 * @param {string | string[]} type - Event type (e.g. `"click"`, `"keydown"`) or array of event types
-	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function. Omit for mouse/click events to trigger automatically.
-	 * @param {AddEventListenerOptions} [opts] - Event options (`once`, `passive`, etc.)
+	 * @param {string} [selector] - CSS selector of descendants to delegate the event to
+	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function. Omit to trigger the event.
+	 * @param {InDomEventOptions} [opts] - Event options (`once`, `passive`, etc.)
 	 * @returns {InDomHandler} The internal wrapped handler. Pass it to `.off()` to remove manually.
 	 * @throws {Error} If the element is not connected to the document or DOM not ready
-	 * @throws {Error} If auto-trigger is used with non-mouse events
-	 * @throws {TypeError} If handler is not a function (when provided)
+	 * @throws {TypeError} If handler is not a function (when provided, or when a selector is given)
+	 * @throws {TypeError} If selector is an empty string
+	 * @throws {TypeError} If `opts.signal` is given but is not an AbortSignal
+	 * @throws {TypeError} If `debounce` / `throttle` are not non-negative numbers, or more than one rate option is given
 	 */
-	on(type: string, fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler;
-	on(type: string[], fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler;
+	on(type: string, fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler;
+	on(type: string[], fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler;
+	on(type: string, selector: string, fn: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler;
+	on(type: string[], selector: string, fn: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler;
 	on(
 		type: string | string[],
-		fn?: (n: InDom, e: Event) => void,
-		opts: AddEventListenerOptions = {}
+		selectorOrFn?: string | ((n: InDom, e: Event) => void),
+		fnOrOpts?: ((n: InDom, e: Event) => void) | InDomEventOptions,
+		delegatedOpts?: InDomEventOptions
 	): InDomHandler {
 		this.#ensureConnected();
 
-		// normalize + validate
-		const types = Array.isArray(type) ? type : [type];
+		// resolve delegated form: on(type, selector, fn, opts)
+		let selector: string | null = null;
+		let fn: ((n: InDom, e: Event) => void) | undefined;
+		let opts: InDomEventOptions;
+		if (typeof selectorOrFn === 'string') {
+			if (!selectorOrFn) {
+				throw new TypeError('Selector must be a non-empty string', { cause: selectorOrFn });
+			}
+			if (typeof fnOrOpts !== 'function') {
+				throw new TypeError('Event handler must be a function', { cause: fnOrOpts });
+			}
+			selector = selectorOrFn;
+			fn = fnOrOpts;
+			opts = delegatedOpts ?? {};
+		} else {
+			fn = selectorOrFn;
+			opts = (fnOrOpts ?? {}) as InDomEventOptions;
+		}
+
+		// normalize + validate ('click.menu keydown' → click [menu], keydown [])
+		const types = InDom.#parseTypes(type);
 		for (let i = 0; i < types.length; i++) {
-			if (typeof types[i] !== 'string' || !types[i]) {
-				throw new TypeError('Event type must be a non-empty string', { cause: types[i] });
+			if (!types[i].type) {
+				throw new TypeError('Event type must be a non-empty string', { cause: type });
 			}
 		}
 
-		// auto-trigger (all must be mouse/click)
+		// auto-trigger, with the same events as .trigger()
 		if (fn === undefined) {
 			for (let i = 0; i < types.length; i++) {
-				if (!(types[i].includes('mouse') || types[i].includes('click'))) {
-					throw new Error(`Auto-trigger only supported for mouse events, not '${types[i]}'`);
-				}
-			}
-			for (let i = 0; i < types.length; i++) {
-				this.#el!.dispatchEvent(new MouseEvent(types[i], { bubbles: true, cancelable: true, view: window }));
+				this.#el!.dispatchEvent(InDom.#createEvent(types[i].type, undefined));
 			}
 			return () => { };
 		}
@@ -1098,197 +3856,935 @@ export class InDom {
 		if (!InDom.#isObject(opts)) {
 			throw new TypeError('Options must be an object if defined', { cause: opts });
 		}
-
-		// attach once; reuse wrapped + options for all types
-		this.#checkAbortController();
-		const finalOpts = { ...opts, signal: this.#abortController!.signal };
-		const wrapped = fn.bind(null, this) as InDomHandler;
-
-		for (let i = 0; i < types.length; i++) {
-			this.#checkEvents(types[i]);
-			this.#el!.addEventListener(types[i], wrapped as unknown as EventListener, finalOpts);
-			this.#events![types[i]]!.add(wrapped);
+		const { ns: optsNs, signal: userSignal, rate, listenerOpts } = InDom.#splitOptions(opts);
+
+		// delegated `once` is used up by the first matching event, not by the first event of the container
+		const once = !!listenerOpts.once;
+		let wrapped = (selector === null
+			? fn.bind(null, this)
+			: this.#delegate(selector, fn, once ? e => this.#offType(e.type, [], wrapped) : undefined)) as InDomHandler;
+
+		// debounce / throttle / frame: pending calls are cancelled on removal
+		let cancel: (() => void) | null = null;
+		if (rate) {
+			const limited = InDom.#rateLimit(wrapped as EventListener, rate);
+			wrapped = limited.run as InDomHandler;
+			cancel = limited.cancel;
+		}
+
+		// an already aborted caller signal never attaches (same as native addEventListener)
+		if (userSignal?.aborted) {
+			return wrapped;
+		}
+
+		// `once`: the native listener removes itself, drop its bookkeeping too
+		if (once && selector === null) {
+			const run = wrapped as EventListener;
+			const self: EventListener = e => {
+				this.#offType(e.type, [], self as InDomHandler);
+				run(e);
+			};
+			wrapped = self as InDomHandler;
+		}
+
+		// attach once; reuse wrapped + options for all types
+		// the caller signal is combined with the internal one, so aborting either detaches
+		this.#checkAbortController();
+		const [signal, release] = userSignal
+			? InDom.#anySignal(userSignal, this.#abortController!.signal)
+			: [this.#abortController!.signal, null];
+		const finalOpts: AddEventListenerOptions = { ...listenerOpts, once: once && selector === null, signal };
+		let live = types.length; // records sharing the combined signal
+		const capture = !!finalOpts.capture;
+		const recOpts = Object.freeze({ ...opts });
+
+		for (let i = 0; i < types.length; i++) {
+			const t = types[i].type;
+			this.#checkEvents(t);
+			this.#el!.addEventListener(t, wrapped as unknown as EventListener, finalOpts);
+			this.#warnDuplicate(t, fn, selector);
+			const rec: InDomListener = { ns: [...types[i].ns, ...optsNs], capture, opts: recOpts, fn };
+			if (selector !== null) {
+				rec.selector = selector;
+			}
+			const unwatch = userSignal ? this.#forgetOnAbort(userSignal, t, wrapped) : null;
+			if (cancel || unwatch) {
+				rec.cleanup = () => {
+					cancel?.();
+					unwatch?.();
+					if (--live === 0) {
+						release?.();
+					}
+				};
+			}
+			this.#events![t]!.set(wrapped, rec);
+			InDom.#record(() => this.#offType(t, [], wrapped), this);
+		}
+
+		return wrapped;
+	}
+
+	/**
+	 * Removes event listener(s) registered with `.on()`, its shorthand methods, or `onRemove()`.
+	 *
+	 * `type` may carry namespaces: `'click.menu'` removes the `click` listeners in the `menu` namespace,
+	 * `'.menu'` removes the listeners of every type in that namespace. Several entries can be given
+	 * separated by spaces, e.g. `'click.menu keydown.menu'`.
+	 *
+	 * @param {string} [type] - Event type, optionally namespaced, or namespace only. If omitted, **all** listeners are removed.
+	 * @param {InDomHandler} [fn] - Handler returned by `.on()` / `.onRemove()`. If omitted, **all** listeners of `type` are removed.
+	 * @returns {this} The current InDom instance (chainable)
+	 * @throws {TypeError} If `type` is provided but is not a non-empty string
+	 * @throws {Error} If the underlying element has been removed
+	 */
+	off(type?: string, fn?: InDomHandler): this {
+		this.#checkElement();
+
+		if (!this.#events) {
+			return this;
+		}
+
+		// Special handling for onRemove pseudo-event
+		if (type === 'onRemove') {
+			return this.#offOnRemove(fn);
+		}
+
+		// Remove all listeners of all types
+		if (type === undefined) {
+			this.#offOnRemove();
+			for (const t in this.#events) {
+				this.#offType(t, []);
+			}
+			return this;
+		}
+
+		if (typeof type !== 'string' || !type.trim()) {
+			throw new TypeError('Event type, if given, must be a non-empty string', { cause: type });
+		}
+
+		const types = InDom.#parseTypes(type);
+		for (let i = 0; i < types.length; i++) {
+			const { type: t, ns } = types[i];
+			if (!t && ns.length === 0) {
+				throw new TypeError('Event type or namespace must be given', { cause: type });
+			}
+			if (t) {
+				this.#offType(t, ns, fn);
+				continue;
+			}
+			// namespace only: every type
+			for (const et in this.#events) {
+				this.#offType(et, ns, fn);
+			}
+		}
+		return this;
+	}
+
+	/**
+	 * Lists the listeners registered on the element with `.on()`, its shorthand methods, or `.onRemove()`.
+	 *
+	 * `type` may carry namespaces like in `.off()`: `'click.menu'` lists the `click` listeners in the `menu`
+	 * namespace, `'.menu'` the listeners of every type in that namespace.
+	 *
+	 * @param {string} [type] - Event type, optionally namespaced, or namespace only. If omitted, all listeners are listed.
+	 * @returns {InDomListenerInfo[]} Read-only entries in registration order per type (empty if none)
+	 * @throws {TypeError} If `type` is provided but is not a non-empty string
+	 * @throws {Error} If the underlying element has been removed
+	 */
+	getListeners(type?: string): InDomListenerInfo[] {
+		this.#checkElement();
+		const filters: { type: string, ns: string[] }[] = type === undefined
+			? [{ type: '', ns: [] }]
+			: InDom.#parseFilter(type);
+		const out: InDomListenerInfo[] = [];
+		if (!this.#events) {
+			return out;
+		}
+
+		const seen = new Set<InDomListener>();
+		for (let i = 0; i < filters.length; i++) {
+			const { type: ft, ns } = filters[i];
+			const types: string[] = ft ? [ft] : Object.keys(this.#events);
+			for (let j = 0; j < types.length; j++) {
+				const t = types[j];
+				const map = this.#events[t];
+				if (!map) {
+					continue;
+				}
+				for (const [handler, rec] of map) {
+					if (!ns.every(x => rec.ns.includes(x))) {
+						continue;
+					}
+					// overlapping filters ('click .menu') list a listener once
+					if (seen.has(rec)) {
+						continue;
+					}
+					seen.add(rec);
+					out.push(Object.freeze({
+						type: t,
+						handler,
+						namespaces: Object.freeze([...rec.ns]),
+						options: rec.opts
+					}));
+				}
+			}
+		}
+		return out;
+	}
+
+	/**
+	 * Checks whether a listener is registered on the element with `.on()`, its shorthand methods, or `.onRemove()`.
+	 *
+	 * @param {string} type - Event type, optionally namespaced (`'click.menu'`), or namespace only (`'.menu'`)
+	 * @param {InDomHandler} [fn] - Handler returned by `.on()` / `.onRemove()`. If omitted, any listener of `type` matches.
+	 * @returns {boolean} `true` if a matching listener is registered
+	 * @throws {TypeError} If `type` is not a non-empty string
+	 * @throws {Error} If the underlying element has been removed
+	 */
+	hasListener(type: string, fn?: InDomHandler): boolean {
+		if (typeof type !== 'string') {
+			throw new TypeError('Event type must be a non-empty string', { cause: type });
+		}
+		const list = this.getListeners(type);
+		return fn === undefined ? list.length > 0 : list.some(l => l.handler === fn);
+	}
+
+	/**
+	 * Registers an event listener that fires only once, then removes itself.
+	 *
+	 * @param {string} type - Event type, e.g. `'click'`, `'keydown'`
+	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function. Omit to trigger the event.
+	 * @param {InDomEventOptions} [opts] - Optional listener options (`passive`, `capture`, etc.)
+	 * @returns {InDomHandler} The internal wrapped listener (pass to `.off()` to remove manually)
+	 *
+	 * @throws {Error} If DOM is not ready or element is not connected
+	 * @throws {TypeError} If handler is not a function (when provided)
+	 */
+	once(
+		type: string,
+		fn?: (n: InDom, e: Event) => void,
+		opts?: InDomEventOptions
+	): InDomHandler {
+		return this.on(type, fn, { ...opts, once: true });
+	}
+
+	/**
+	 * Registers a `click` event listener.
+	 * Omit the handler to auto-trigger a click immediately.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function or omit to trigger.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('click', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `dblclick` event listener.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onDoubleClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('dblclick', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `mouseenter` event listener.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onEnter(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('mouseenter', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `mouseleave` event listener.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onLeave(fn?: (n: InDom, e: MouseEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('mouseleave', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `focus` event listener.
+	 *
+	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onFocus(fn?: (n: InDom, e: FocusEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('focus', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `blur` event listener.
+	 *
+	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onBlur(fn?: (n: InDom, e: FocusEvent) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('blur', fn as any, opts);
+	}
+
+	/**
+	 * Registers a `change` event listener.
+	 *
+	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function.
+	 * @param {InDomEventOptions} [opts] - Optional listener options.
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If handler is not a function
+	 */
+	onChange(fn?: (n: InDom, e: Event) => void, opts?: InDomEventOptions): InDomHandler {
+		return this.on('change', fn as any, opts);
+	}
+
+	/**
+	 * Registers a keyboard shortcut as a `keydown` listener, removed like any other listener
+	 * (`.off('keydown', handler)`, namespaces, element removal).
+	 *
+	 * - Modifiers joined with `+`: `ctrl`, `shift`, `alt`, `meta` (aliases `control`, `option`, `cmd`, `command`)
+	 *   and `mod` (Cmd on Mac, Ctrl elsewhere), e.g. `'ctrl+shift+k'`, `'mod+enter'`
+	 * - Keys by `KeyboardEvent.key` name (case-insensitive), e.g. `'escape'`, `'arrowup'`, `'/'`,
+	 *   with aliases `esc`, `return`, `space`, `plus`, `up`, `down`, `left`, `right`, `del`
+	 * - Sequences separated by spaces, e.g. `'g i'`, each step within `sequenceTimeout` ms
+	 *
+	 * Use `$n(document).onKey(…)` for document-level shortcuts.
+	 *
+	 * @param {string} combo - Shortcut, e.g. `'ctrl+shift+k'`, `'mod+enter'`, `'escape'` or a sequence `'g i'`
+	 * @param {(n: InDom, e: KeyboardEvent) => void} fn - Handler function
+	 * @param {InDomKeyOptions} [opts] - Event options plus `preventDefault`, `ignoreInputs`, `sequenceTimeout`
+	 * @returns {InDomHandler} Wrapped listener.
+	 *
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `combo` is not a valid shortcut or `fn` is not a function
+	 */
+	onKey(combo: string, fn: (n: InDom, e: KeyboardEvent) => void, opts: InDomKeyOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		if (typeof fn !== 'function') {
+			throw new TypeError('Event handler must be a function', { cause: fn });
+		}
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const steps = InDom.#parseKeyCombo(combo);
+		const { preventDefault = false, ignoreInputs = false, sequenceTimeout = 1000, ...listenerOpts } = opts as InDomKeyOptions;
+
+		let step = 0;
+		let lastTime = 0;
+		return this.on('keydown', (n, e) => {
+			const ke = e as KeyboardEvent;
+			if (ignoreInputs && InDom.#isEditable(ke.target)) {
+				return;
+			}
+			// pure modifier presses never advance or reset a sequence
+			if (ke.key === 'Control' || ke.key === 'Shift' || ke.key === 'Alt' || ke.key === 'Meta') {
+				return;
+			}
+			if (step > 0 && ke.timeStamp - lastTime > sequenceTimeout) {
+				step = 0;
+			}
+			if (!InDom.#matchKey(steps[step], ke)) {
+				step = InDom.#matchKey(steps[0], ke) ? 1 : 0;
+			} else {
+				step++;
+			}
+			lastTime = ke.timeStamp;
+			if (step < steps.length) {
+				return;
+			}
+			step = 0;
+			if (preventDefault) {
+				ke.preventDefault();
+			}
+			fn(n, ke);
+		}, listenerOpts);
+	}
+
+	/**
+	 * Calls `fn` when a click happens outside the underlying element, e.g. to close a dropdown or popover.
+	 *
+	 * The listener is registered on the document (capture phase) but owned by this element:
+	 * it is stored under the `clickoutside` type, removed with `.off('clickoutside', handler)`,
+	 * and torn down automatically when the element is removed.
+	 *
+	 * @param {(n: InDom, e: MouseEvent) => void} fn - Handler function
+	 * @param {InDomEventOptions} [opts] - Event options (`once`, `namespace`, `signal` …)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('clickoutside', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `fn` is not a function, or the underlying object is the document
+	 */
+	onClickOutside(fn: (n: InDom, e: MouseEvent) => void, opts: InDomEventOptions = {}): InDomHandler {
+		return this.#onOutside('clickoutside', 'click', fn as (n: InDom, e: Event) => void, opts);
+	}
+
+	/**
+	 * Calls `fn` when focus moves to an element outside the underlying element (e.g. tabbing out of a popup).
+	 *
+	 * The listener is registered on the document (`focusin`, capture phase) but owned by this element:
+	 * it is stored under the `focusoutside` type, removed with `.off('focusoutside', handler)`,
+	 * and torn down automatically when the element is removed.
+	 *
+	 * @param {(n: InDom, e: FocusEvent) => void} fn - Handler function
+	 * @param {InDomEventOptions} [opts] - Event options (`once`, `namespace`, `signal` …)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('focusoutside', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `fn` is not a function, or the underlying object is the document
+	 */
+	onFocusOutside(fn: (n: InDom, e: FocusEvent) => void, opts: InDomEventOptions = {}): InDomHandler {
+		return this.#onOutside('focusoutside', 'focusin', fn as (n: InDom, e: Event) => void, opts);
+	}
+
+	/**
+	 * Waits for the next event of the given type.
+	 *
+	 * The promise resolves with the event, or rejects when `opts.timeout` ms pass, when `opts.signal`
+	 * aborts (with its reason), or when the element is removed. The one-time listener is registered
+	 * through `.on()`, so it is part of the bookkeeping until the promise settles.
+	 *
+	 * @param {string} type - Event type, e.g. `'click'`, `'transitionend'`
+	 * @param {InDomWaitOptions} [opts] - Event options plus `timeout` (ms)
+	 * @returns {Promise<Event>} Resolves with the event
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `type` is not a non-empty string, or `timeout` is not a non-negative number
+	 */
+	waitFor(type: string, opts: InDomWaitOptions = {}): Promise<Event> {
+		this.#ensureConnected();
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const { timeout, ...eventOpts } = opts as InDomWaitOptions;
+		if (timeout !== undefined && !(typeof timeout === 'number' && timeout >= 0)) {
+			throw new TypeError('Timeout must be a non-negative number of ms if defined', { cause: timeout });
+		}
+		const { signal } = InDom.#splitOptions(eventOpts);
+		if (signal?.aborted) {
+			return Promise.reject(signal.reason);
 		}
 
-		return wrapped;
+		this.#checkAbortController();
+		const removed = this.#abortController!.signal;
+		const el = this.#el;
+		return new Promise((resolve, reject) => {
+			const ctrl = new (InDom.#window().AbortController)();
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			const settle = () => {
+				clearTimeout(timer);
+				ctrl.abort();
+			};
+
+			this.on(type, (_, e) => {
+				settle();
+				resolve(e);
+			}, { ...eventOpts, once: true, signal: ctrl.signal });
+
+			removed.addEventListener('abort', () => {
+				settle();
+				reject(new Error(`Element has been removed while waiting for '${type}'`, { cause: el }));
+			}, { signal: ctrl.signal });
+			signal?.addEventListener('abort', () => {
+				settle();
+				reject(signal.reason);
+			}, { signal: ctrl.signal });
+			if (timeout !== undefined) {
+				timer = setTimeout(() => {
+					settle();
+					reject(new Error(`Timed out after ${timeout}ms waiting for '${type}'`, { cause: el }));
+				}, timeout);
+			}
+		});
 	}
 
 	/**
-	 * Removes event listener(s) registered with `.on()`, its shorthand methods, or `onRemove()`.
+	 * Returns an async iterator over the events of the given type, for `for await` loops.
 	 *
-	 * @param {string} [type] - Event type. If omitted, **all** listeners are removed.
-	 * @param {InDomHandler} [fn] - Handler returned by `.on()` / `.onRemove()`. If omitted, **all** listeners of `type` are removed.
-	 * @returns {this} The current InDom instance (chainable)
-	 * @throws {TypeError} If `type` is provided but is not a non-empty string
-	 * @throws {Error} If the underlying element has been removed
+	 * Events are queued between iterations. The iteration ends cleanly (without error) when the
+	 * element is removed, when `opts.signal` aborts, after the first event with `opts.once`,
+	 * or when the loop exits (`break` / `return`), which also removes the underlying listener.
+	 *
+	 * @param {string} type - Event type, e.g. `'click'`
+	 * @param {InDomEventOptions} [opts] - Event options
+	 * @returns {AsyncIterableIterator<Event>} The event stream
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `type` is not a non-empty string
 	 */
-	off(type?: string, fn?: InDomHandler): this {
-		this.#checkElement();
-
-		if (!this.#events) {
-			return this;
+	events(type: string, opts: InDomEventOptions = {}): AsyncIterableIterator<Event> {
+		this.#ensureConnected();
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
 		}
+		const { signal } = InDom.#splitOptions(opts);
+		const once = !!opts.once;
+
+		const queue: Event[] = [];
+		let waiting: ((r: IteratorResult<Event>) => void) | null = null;
+		let done = !!signal?.aborted;
+		const ctrl = new (InDom.#window().AbortController)();
+		const finish = () => {
+			if (done) {
+				return;
+			}
+			done = true;
+			ctrl.abort();
+			queue.length = 0;
+			waiting?.({ value: undefined, done: true });
+			waiting = null;
+		};
+
+		if (!done) {
+			this.on(type, (_, e) => {
+				if (waiting) {
+					const w = waiting;
+					waiting = null;
+					w({ value: e, done: false });
+				} else {
+					queue.push(e);
+				}
+				// `once`: the iteration ends after this event (still delivered from the queue)
+				if (once) {
+					done = true;
+					ctrl.abort();
+				}
+			}, { ...opts, once: false, signal: ctrl.signal });
 
-		// Special handling for onRemove pseudo-event
-		if (type === 'onRemove') {
-			return this.#offOnRemove(fn);
+			this.#checkAbortController();
+			this.#abortController!.signal.addEventListener('abort', finish, { signal: ctrl.signal });
+			signal?.addEventListener('abort', finish, { signal: ctrl.signal });
 		}
 
-		// Remove all listeners of all types
-		if (type === undefined) {
-			this.#offOnRemove();
-			for (const t in this.#events) {
-				for (const h of this.#events[t]!) {
-					this.#el!.removeEventListener(t, h as EventListener);
+		return {
+			next: (): Promise<IteratorResult<Event>> => {
+				if (queue.length > 0) {
+					return Promise.resolve({ value: queue.shift()!, done: false });
+				}
+				if (done) {
+					return Promise.resolve({ value: undefined, done: true });
 				}
-				delete this.#events[t];
+				return new Promise(r => waiting = r);
+			},
+			return: (): Promise<IteratorResult<Event>> => {
+				finish();
+				return Promise.resolve({ value: undefined, done: true });
+			},
+			[Symbol.asyncIterator]() {
+				return this;
 			}
-			return this;
-		}
-
-		if (typeof type !== 'string' || !type) {
-			throw new TypeError('Event type, if given, must be a non-empty string', { cause: type });
-		}
-
-		const handlers = this.#events[type];
-		if (!handlers) {
-			return this;
-		}
+		};
+	}
 
-		// Remove all listeners of this type
-		if (fn === undefined) {
-			for (const h of handlers) {
-				this.#el!.removeEventListener(type, h as EventListener);
-			}
-			delete this.#events[type];
-			return this;
-		}
+	/**
+	 * Registers a tap gesture (Pointer Events): the pointer goes down and up without moving
+	 * more than `maxDistance` px, within `maxDuration` ms. A tap never fires when the browser
+	 * takes the pointer over for scrolling (`pointercancel`) or the pointer moves too far.
+	 *
+	 * Stored under the `tap` type: remove with `.off('tap', handler)`, auto-removed with the element.
+	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler, receives the `pointerup` event
+	 * @param {InDomGestureOptions} [opts] - Event options plus `maxDistance` (default `10`), `maxDuration` (default `300`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('tap', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `fn` is not a function
+	 */
+	onTap(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts: InDomGestureOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		const { gesture: { maxDistance = 10, maxDuration = 300 }, eventOpts } = InDom.#gestureOptions(fn, opts);
+		return this.#addVirtual('tap', fn, eventOpts, (signal, listenerOpts, fire) =>
+			this.#trackPointer(signal, listenerOpts, false, (phase, g, e) => {
+				if (phase === 'move') {
+					return Math.hypot(g.dx, g.dy) <= maxDistance;
+				}
+				if (phase === 'up' && g.duration <= maxDuration && Math.hypot(g.dx, g.dy) <= maxDistance) {
+					fire(e, { ...g, phase: 'end' });
+				}
+			})
+		);
+	}
 
-		// Remove specific listener
-		this.#el!.removeEventListener(type, fn as EventListener);
-		handlers.delete(fn);
-		if (handlers.size === 0) {
-			delete this.#events[type];
-		}
-		return this;
+	/**
+	 * Registers a long-press gesture (Pointer Events): fires once the pointer has been held down for
+	 * `delay` ms without moving more than `maxDistance` px.
+	 *
+	 * Stored under the `longpress` type: remove with `.off('longpress', handler)`, auto-removed with the element.
+	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler, receives the `pointerdown` event
+	 * @param {InDomGestureOptions} [opts] - Event options plus `delay` (default `500`), `maxDistance` (default `10`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('longpress', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `fn` is not a function
+	 */
+	onLongPress(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts: InDomGestureOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		const { gesture: { delay = 500, maxDistance = 10 }, eventOpts } = InDom.#gestureOptions(fn, opts);
+		return this.#addVirtual('longpress', fn, eventOpts, (signal, listenerOpts, fire) => {
+			let timer: ReturnType<typeof setTimeout> | undefined;
+			return this.#trackPointer(signal, listenerOpts, false, (phase, g, e) => {
+				if (phase === 'down') {
+					timer = setTimeout(() => {
+						timer = undefined;
+						fire(e, { ...g, phase: 'start', duration: delay });
+					}, delay);
+					return;
+				}
+				if (phase === 'move' && Math.hypot(g.dx, g.dy) <= maxDistance) {
+					return;
+				}
+				// moved too far, released or cancelled
+				clearTimeout(timer);
+				timer = undefined;
+				return false;
+			});
+		});
 	}
 
 	/**
-	 * Registers an event listener that fires only once, then removes itself.
+	 * Registers a swipe gesture (Pointer Events): a quick movement of at least `minDistance` px,
+	 * within `maxDuration` ms, whose dominant direction matches `direction` (or any with `'any'`).
+	 * On touch devices the element needs a CSS `touch-action` that lets the movement through,
+	 * e.g. `pan-y` for horizontal swipes.
 	 *
-	 * @param {string} type - Event type, e.g. `'click'`, `'keydown'`
-	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function. Omit for mouse/click to auto-trigger event.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options (`passive`, `capture`, etc.)
-	 * @returns {InDomHandler} The internal wrapped listener (pass to `.off()` to remove manually)
+	 * Stored under the `swipe` type: remove with `.off('swipe', handler)`, auto-removed with the element.
 	 *
-	 * @throws {Error} If DOM is not ready or element is not connected
-	 * @throws {TypeError} If handler is not a function (when provided)
+	 * @param {InDomSwipeDirection | 'any'} direction - `'left'`, `'right'`, `'up'`, `'down'` or `'any'`
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler, receives the `pointerup` event
+	 * @param {InDomGestureOptions} [opts] - Event options plus `minDistance` (default `30`), `maxDuration` (default `500`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('swipe', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `direction` is invalid or `fn` is not a function
 	 */
-	once(
-		type: string,
-		fn?: (n: InDom, e: Event) => void,
-		opts?: AddEventListenerOptions
+	onSwipe(
+		direction: InDomSwipeDirection | 'any',
+		fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void,
+		opts: InDomGestureOptions = {}
 	): InDomHandler {
-		return this.on(type, fn, { ...opts, once: true });
+		this.#ensureConnected();
+		if (!['left', 'right', 'up', 'down', 'any'].includes(direction)) {
+			throw new TypeError("Swipe direction must be 'left', 'right', 'up', 'down' or 'any'", { cause: direction });
+		}
+		const { gesture: { minDistance = 30, maxDuration = 500 }, eventOpts } = InDom.#gestureOptions(fn, opts);
+		return this.#addVirtual('swipe', fn, eventOpts, (signal, listenerOpts, fire) =>
+			this.#trackPointer(signal, listenerOpts, true, (phase, g, e) => {
+				if (phase !== 'up' || g.duration > maxDuration) {
+					return;
+				}
+				const dist = g.direction === 'left' || g.direction === 'right' ? Math.abs(g.dx) : Math.abs(g.dy);
+				if (dist >= minDistance && (direction === 'any' || direction === g.direction)) {
+					fire(e, { ...g, phase: 'end' });
+				}
+			})
+		);
 	}
 
 	/**
-	 * Registers a `click` event listener.
-	 * Omit the handler to auto-trigger a click immediately.
+	 * Registers a pan (drag) gesture (Pointer Events): once the pointer moved `minDistance` px while down,
+	 * the handler runs with phase `'start'`, then `'move'` on every movement, and `'end'` on release
+	 * (`'cancel'` if the browser takes the pointer over). The pointer is captured by the element.
 	 *
-	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function or omit to trigger.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Stored under the `pan` type: remove with `.off('pan', handler)`, auto-removed with the element.
 	 *
+	 * @param {(n: InDom, e: PointerEvent, g: InDomGesture) => void} fn - Handler, receives the pointer event of each phase
+	 * @param {InDomGestureOptions} [opts] - Event options plus `minDistance` (default `5`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('pan', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `fn` is not a function
 	 */
-	onClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('click', fn as any, opts);
+	onPan(fn: (n: InDom, e: PointerEvent, g: InDomGesture) => void, opts: InDomGestureOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		const { gesture: { minDistance = 5 }, eventOpts } = InDom.#gestureOptions(fn, opts);
+		return this.#addVirtual('pan', fn, eventOpts, (signal, listenerOpts, fire) => {
+			let started = false;
+			return this.#trackPointer(signal, listenerOpts, true, (phase, g, e) => {
+				if (phase === 'down') {
+					started = false;
+					return;
+				}
+				if (phase === 'move') {
+					if (!started && Math.hypot(g.dx, g.dy) >= minDistance) {
+						started = true;
+						fire(e, { ...g, phase: 'start' });
+					} else if (started) {
+						fire(e, { ...g, phase: 'move' });
+					}
+					return;
+				}
+				if (started && e) {
+					fire(e, { ...g, phase: phase === 'up' ? 'end' : 'cancel' });
+				}
+				started = false;
+			});
+		});
 	}
 
 	/**
-	 * Registers a `dblclick` event listener.
+	 * Calls `fn` when attributes of the underlying element change, e.g. when third-party code flips
+	 * `aria-expanded`, `hidden` or `class`. Runs once per change (after the change, batched by the browser)
+	 * with the attribute name, its previous value and its current value.
 	 *
-	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Backed by a MutationObserver owned by this element: stored under the `attrchange` type,
+	 * removed with `.off('attrchange', handler)`, and disconnected automatically when the element is removed.
 	 *
+	 * @param {string | string[] | InDomAttrHandler} names - Attribute name(s) to watch, or the handler to watch every attribute
+	 * @param {InDomAttrHandler | InDomEventOptions} [fn] - Handler, or options when `names` is the handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('attrchange', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `names` is not a non-empty string or array of them, or the handler is not a function
 	 */
-	onDoubleClick(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('dblclick', fn as any, opts);
+	onAttrChange(names: string | string[], fn: InDomAttrHandler, opts?: InDomEventOptions): InDomHandler;
+	onAttrChange(fn: InDomAttrHandler, opts?: InDomEventOptions): InDomHandler;
+	onAttrChange(
+		names: string | string[] | InDomAttrHandler,
+		fn?: InDomAttrHandler | InDomEventOptions,
+		opts?: InDomEventOptions
+	): InDomHandler {
+		this.#ensureConnected();
+		let filter: string[] | undefined;
+		if (typeof names === 'function') {
+			opts = fn as InDomEventOptions | undefined;
+			fn = names;
+		} else {
+			filter = Array.isArray(names) ? names : [names];
+			if (filter.length === 0 || filter.some(a => typeof a !== 'string' || !a)) {
+				throw new TypeError('Attribute names must be a non-empty string or array of strings', { cause: names });
+			}
+		}
+		if (typeof fn !== 'function') {
+			throw new TypeError('Attribute change handler must be a function', { cause: fn });
+		}
+		const el = this.#el as Element;
+		return this.#addVirtual('attrchange', fn, opts ?? {}, (signal, _listenerOpts, fire) => {
+			const mo = new (InDom.#window().MutationObserver)(records => {
+				for (let i = 0; i < records.length && !signal.aborted; i++) {
+					const name = records[i].attributeName!;
+					fire(name, records[i].oldValue, el.getAttribute(name));
+				}
+			});
+			mo.observe(el, { attributes: true, attributeOldValue: true, attributeFilter: filter });
+			return () => mo.disconnect();
+		});
 	}
 
 	/**
-	 * Registers a `mouseenter` event listener.
+	 * Calls `fn` with the batched mutation records of the underlying element (children, attributes,
+	 * text), observed with the given `MutationObserverInit`.
 	 *
-	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Backed by a MutationObserver owned by this element: stored under the `mutate` type,
+	 * removed with `.off('mutate', handler)`, and disconnected automatically when the element is removed.
 	 *
+	 * @param {MutationObserverInit} init - What to observe (`childList`, `attributes`, `characterData`, `subtree` …)
+	 * @param {(n: InDom, records: MutationRecord[]) => void} fn - Handler, receives the batch of mutation records
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('mutate', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `init` does not observe `childList`, `attributes` or `characterData`, or `fn` is not a function
 	 */
-	onEnter(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('mouseenter', fn as any, opts);
+	onMutate(
+		init: MutationObserverInit,
+		fn: (n: InDom, records: MutationRecord[]) => void,
+		opts: InDomEventOptions = {}
+	): InDomHandler {
+		this.#ensureConnected();
+		const { childList, attributes, characterData, attributeFilter, attributeOldValue, characterDataOldValue } =
+			(InDom.#isObject(init) ? init : {}) as MutationObserverInit;
+		if (!(childList || attributes || characterData || attributeFilter || attributeOldValue || characterDataOldValue)) {
+			throw new TypeError('Mutation observer options must observe childList, attributes or characterData', { cause: init });
+		}
+		if (typeof fn !== 'function') {
+			throw new TypeError('Mutation handler must be a function', { cause: fn });
+		}
+		const el = this.#el!;
+		return this.#addVirtual('mutate', fn, opts, (_signal, _listenerOpts, fire) => {
+			const mo = new (InDom.#window().MutationObserver)(records => fire(records));
+			mo.observe(el, init);
+			return () => mo.disconnect();
+		});
 	}
 
 	/**
-	 * Registers a `mouseleave` event listener.
+	 * Calls `fn` when the size of the underlying element changes (and once when observation starts),
+	 * with its content box and border box as `DOMRect`s.
 	 *
-	 * @param {(n: InDom, e: MouseEvent) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Backed by a ResizeObserver shared by all InDom objects: stored under the `resize` type,
+	 * removed with `.off('resize', handler)`, and unobserved automatically when the element is removed.
 	 *
+	 * @param {(n: InDom, contentBox: DOMRect, borderBox: DOMRect, entry: ResizeObserverEntry) => void} fn - Handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('resize', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `fn` is not a function, or the underlying object is the document
 	 */
-	onLeave(fn?: (n: InDom, e: MouseEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('mouseleave', fn as any, opts);
+	onResize(
+		fn: (n: InDom, contentBox: DOMRect, borderBox: DOMRect, entry: ResizeObserverEntry) => void,
+		opts: InDomEventOptions = {}
+	): InDomHandler {
+		const el = this.#observable(fn);
+		return this.#addVirtual('resize', fn, opts, (_signal, _listenerOpts, fire) =>
+			InDom.#observeShared('resize', cb => new (InDom.#window().ResizeObserver)(cb), el, (entry: ResizeObserverEntry) => {
+				// borderBoxSize is missing in older browsers
+				const border = entry.borderBoxSize?.[0];
+				const { width, height } = border
+					? { width: border.inlineSize, height: border.blockSize }
+					: el.getBoundingClientRect();
+				const win = InDom.#window();
+				fire(win.DOMRect.fromRect(entry.contentRect), new win.DOMRect(0, 0, width, height), entry);
+			})
+		);
 	}
 
 	/**
-	 * Registers a `focus` event listener.
+	 * Calls `fn` when the underlying element becomes visible in the viewport (including when it
+	 * already is as observation starts), e.g. to lazy-load content or start an animation.
+	 * With `once`, the listener is removed after the first time.
 	 *
-	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Backed by an IntersectionObserver shared by all InDom objects with the same `threshold` and
+	 * `rootMargin`: stored under the `visible` type, removed with `.off('visible', handler)`,
+	 * and unobserved automatically when the element is removed.
 	 *
+	 * @param {(n: InDom, entry: IntersectionObserverEntry) => void} fn - Handler
+	 * @param {InDomVisibleOptions} [opts] - `threshold`, `rootMargin`, plus `once`, `namespace`, `signal`
+	 * @returns {InDomHandler} The handler reference (pass to `.off('visible', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `fn` is not a function, options are invalid, or the underlying object is the document
 	 */
-	onFocus(fn?: (n: InDom, e: FocusEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('focus', fn as any, opts);
+	onVisible(fn: (n: InDom, entry: IntersectionObserverEntry) => void, opts: InDomVisibleOptions = {}): InDomHandler {
+		return this.#onIntersect('visible', true, fn, opts);
 	}
 
 	/**
-	 * Registers a `blur` event listener.
+	 * Calls `fn` when the underlying element, after being visible, leaves the viewport
+	 * (no call if it starts out of view), e.g. to pause a video.
 	 *
-	 * @param {(n: InDom, e: FocusEvent) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * Backed by a shared IntersectionObserver like `.onVisible()`: stored under the `hidden` type,
+	 * removed with `.off('hidden', handler)`, and unobserved automatically when the element is removed.
 	 *
+	 * @param {(n: InDom, entry: IntersectionObserverEntry) => void} fn - Handler
+	 * @param {InDomVisibleOptions} [opts] - `threshold`, `rootMargin`, plus `once`, `namespace`, `signal`
+	 * @returns {InDomHandler} The handler reference (pass to `.off('hidden', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `fn` is not a function, options are invalid, or the underlying object is the document
 	 */
-	onBlur(fn?: (n: InDom, e: FocusEvent) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('blur', fn as any, opts);
+	onHidden(fn: (n: InDom, entry: IntersectionObserverEntry) => void, opts: InDomVisibleOptions = {}): InDomHandler {
+		return this.#onIntersect('hidden', false, fn, opts);
 	}
 
 	/**
-	 * Registers a `change` event listener.
+	 * Dispatches an event of the given type on the underlying element, reaching every
+	 * listener registered with `.on()` (and native ones). The event constructor is picked by type:
 	 *
-	 * @param {(n: InDom, e: Event) => void} [fn] - Handler function.
-	 * @param {AddEventListenerOptions} [opts] - Optional listener options.
-	 * @returns {InDomHandler} Wrapped listener.
+	 * - mouse / click types (`click`, `dblclick`, `mouseenter` …): `MouseEvent`
+	 * - `focus`, `blur`, `focusin`, `focusout`: `FocusEvent`
+	 * - `keydown`, `keyup`, `keypress`: `KeyboardEvent`
+	 * - `input`, `beforeinput`: `InputEvent`
+	 * - any other type (`change`, custom app events …): `CustomEvent` with `detail`
+	 *
+	 * Events bubble and are cancelable by default. For non-`CustomEvent` types a given `detail`
+	 * is exposed as `e.detail` as well, while type-specific fields (e.g. `key`) go in `init`.
+	 *
+	 * @param {string} type - Event type, e.g. `'change'`, `'keydown'` or a custom app event
+	 * @param {any} [detail] - Payload available to handlers as `e.detail`
+	 * @param {InDomEventInit} [init] - Extra event init options (override the defaults), e.g. `{ key: 'Enter' }`
+	 * @returns {boolean} `true` if a handler cancelled the event via `preventDefault()`
+	 * @throws {TypeError} If `type` is not a non-empty string
+	 * @throws {Error} If the underlying element has been removed
+	 */
+	trigger(type: string, detail?: any, init?: InDomEventInit): boolean {
+		this.#checkElement();
+		if (typeof type !== 'string' || !type) {
+			throw new TypeError('Event type must be a non-empty string', { cause: type });
+		}
+		return !this.#el!.dispatchEvent(InDom.#createEvent(type, detail, init));
+	}
+
+	/**
+	 * Subscribes to a topic published with `InDom.emit()` or with `.emit()` on this element or a descendant.
 	 *
+	 * The subscription is owned by this element: it is stored under the `topic:<topic>` type, removed with
+	 * `.off('topic:<topic>', handler)` (namespaces and `signal` apply as with `.on()`), and dropped
+	 * automatically when the element is removed.
+	 *
+	 * @param {string} topic - Topic name, e.g. `'cart:add'` (no spaces or dots)
+	 * @param {InDomTopicHandler} fn - Handler, called with `(n, payload, topic, source)`
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('topic:<topic>', …)`)
 	 * @throws {Error} If DOM not ready or element not connected
-	 * @throws {TypeError} If handler is not a function
+	 * @throws {TypeError} If `topic` is not a valid topic name or `fn` is not a function
 	 */
-	onChange(fn?: (n: InDom, e: Event) => void, opts?: AddEventListenerOptions): InDomHandler {
-		return this.on('change', fn as any, opts);
+	subscribe(topic: string, fn: InDomTopicHandler, opts: InDomEventOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		InDom.#checkTopic(topic);
+		if (typeof fn !== 'function') {
+			throw new TypeError('Topic handler must be a function', { cause: fn });
+		}
+		return this.#addVirtual('topic:' + topic, fn, opts, (_signal, _listenerOpts, fire, h) => {
+			let subs = InDom.#topics.get(topic);
+			if (!subs) {
+				subs = new Map();
+				InDom.#topics.set(topic, subs);
+			}
+			subs.set(h, { owner: this, fire });
+			return () => {
+				subs.delete(h);
+				if (!subs.size && InDom.#topics.get(topic) === subs) {
+					InDom.#topics.delete(topic);
+				}
+			};
+		});
+	}
+
+	/**
+	 * Publishes a topic from this element: it bubbles up the DOM tree, so the subscribers of this
+	 * element and of its ancestors are called, nearest first. Use `InDom.emit()` to reach every subscriber.
+	 *
+	 * @param {string} topic - Topic name, e.g. `'cart:add'` (no spaces or dots)
+	 * @param {any} [payload] - Value passed to the subscribers
+	 * @returns {number} The number of subscribers called
+	 * @throws {TypeError} If `topic` is not a valid topic name
+	 * @throws {Error} If the underlying element has been removed
+	 */
+	emit(topic: string, payload?: any): number {
+		this.#checkElement();
+		InDom.#checkTopic(topic);
+		if (!InDom.#topics.has(topic)) {
+			return 0;
+		}
+		const owners: InDom[] = [];
+		let node: Node | null = this.#el;
+		while (node) {
+			const n = InDom.#map.get(node as Element | Document);
+			if (n) {
+				owners.push(n);
+			}
+			// cross shadow boundaries to the host
+			node = node.parentNode ?? (node.nodeType === DOCUMENT_FRAGMENT_NODE ? (node as ShadowRoot).host ?? null : null);
+		}
+		return InDom.#publish(topic, payload, this, owners);
 	}
 
 	/**
@@ -1305,9 +4801,11 @@ export class InDom {
 		if (typeof fn !== 'function') {
 			throw new TypeError('Remove event handler must be a function', { cause: fn });
 		}
+		this.#warnDuplicate('onRemove', fn);
 		this.#checkEvents('onRemove');
 		const ifn = fn.bind(null, this);
-		this.#events!.onRemove.add(ifn);
+		this.#events!.onRemove.set(ifn, { ns: [], capture: false, opts: Object.freeze({}), virtual: true, fn });
+		InDom.#record(() => this.#offType('onRemove', [], ifn), this);
 		return ifn;
 	}
 
@@ -1438,6 +4936,7 @@ export class InDom {
 	/**
 	 * Reads a `data-*` attribute or in-memory data.
 	 * Only available for connected elements to guarantee cleanup and single-instance consistency.
+	 * Attribute values are strings, unless parsed with `InDom.configure({ typedData, dataSchema })`.
 	 *
 	 * @param {any} k - The data key
 	 * @returns {any} The value from `data-*` attribute or in-memory store
@@ -1447,12 +4946,41 @@ export class InDom {
 		this.#ensureConnected();
 		const attrName = 'data-' + String(k);
 		if (this.hasAttr(attrName)) {
-			return this.getAttr(attrName);
+			return InDom.#parseData(k, this.getAttr(attrName)!);
 		}
 		this.#checkData();
 		return this.#data!.get(k);
 	}
 
+	/**
+	 * Returns every data value of the element in one plain object: the `data-*` attributes
+	 * (keyed like `getData()`, by the attribute name without `data-`, parsed like `getData()`)
+	 * merged over the in-memory data. Attribute keys keep their hyphens (`data-user-id` is `'user-id'`,
+	 * not `userId` as in `dataset`).
+	 *
+	 * @returns {Record<string, any>} Snapshot of the data
+	 * @throws {Error} If the element is not connected or removed
+	 */
+	getAllData(): Record<string, any> {
+		this.#ensureConnected();
+		const out: Record<string, any> = {};
+		if (this.#data) {
+			for (const [k, v] of this.#data) {
+				out[k] = v;
+			}
+		}
+		if (InDom.#isElement(this.#el)) {
+			const attrs = this.#el.attributes;
+			for (let i = 0; i < attrs.length; i++) {
+				const name = attrs[i].name;
+				if (name.startsWith('data-')) {
+					out[name.slice(5)] = InDom.#parseData(name.slice(5), attrs[i].value);
+				}
+			}
+		}
+		return out;
+	}
+
 	/**
 	 * Stores a `data-*` attribute or in-memory data.
 	 * Only available for connected elements to guarantee cleanup and single-instance consistency.
@@ -1465,12 +4993,28 @@ export class InDom {
 	setData(k: any, v: any): this {
 		this.#ensureConnected();
 		const attrName = 'data-' + String(k);
+		const watched = !!this.#dataWatchers?.size;
+		const had = (InDom.#scope !== null || watched) && this.hasData(k);
+		const prev = had ? this.getData(k) : undefined;
+		const before = this.#rawData(k);
 		if (this.hasAttr(attrName)) {
-			this.setAttr(attrName, v);
+			this.setAttr(attrName, InDom.#serializeData(k, v));
 		} else {
 			this.#checkData();
 			this.#data!.set(k, v);
 		}
+		const now = this.#rawData(k);
+		if (watched && !InDom.#sameRawData(before, now)) {
+			this.#notifyData(k, this.getData(k), prev);
+		}
+		if (InDom.#scope) {
+			// restore the previous value, unless it has been changed since
+			InDom.#record(() => {
+				if (this.#el?.isConnected && this.hasData(k) && InDom.#sameRawData(this.#rawData(k), now)) {
+					had ? this.setData(k, prev) : this.removeData(k);
+				}
+			}, this);
+		}
 		return this;
 	}
 
@@ -1485,15 +5029,103 @@ export class InDom {
 	removeData(k: any): this {
 		this.#ensureConnected();
 		const attrName = 'data-' + String(k);
+		const watched = !!this.#dataWatchers?.size && this.hasData(k);
+		const prev = watched ? this.getData(k) : undefined;
 		if (this.hasAttr(attrName)) {
 			this.removeAttr(attrName);
 		} else {
 			this.#checkData();
 			this.#data!.delete(k);
 		}
+		if (watched) {
+			this.#notifyData(k, undefined, prev);
+		}
 		return this;
 	}
 
+	/**
+	 * Calls `fn` when a data value of this InDom object changes through `.setData()` or `.removeData()`
+	 * (in-memory values compared with `Object.is`, so mutating a stored object in place does not count;
+	 * `data-*` attributes compared by their string), with the key,
+	 * the new value (`undefined` once removed) and the previous value.
+	 *
+	 * Stored under the `datachange` type: removed with `.off('datachange', handler)` and automatically
+	 * when the element is removed.
+	 *
+	 * @param {any | InDomDataHandler} key - Data key to watch, or the handler to watch every key
+	 * @param {InDomDataHandler | InDomEventOptions} [fn] - Handler, or options when `key` is the handler
+	 * @param {InDomEventOptions} [opts] - Options (`once`, `namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('datachange', …)`)
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If the handler is not a function
+	 */
+	onDataChange(key: any, fn: InDomDataHandler, opts?: InDomEventOptions): InDomHandler;
+	onDataChange(fn: InDomDataHandler, opts?: InDomEventOptions): InDomHandler;
+	onDataChange(key: any, fn?: InDomDataHandler | InDomEventOptions, opts?: InDomEventOptions): InDomHandler {
+		this.#ensureConnected();
+		const all = typeof key === 'function';
+		if (all) {
+			opts = fn as InDomEventOptions | undefined;
+			fn = key;
+		}
+		if (typeof fn !== 'function') {
+			throw new TypeError('Data change handler must be a function', { cause: fn });
+		}
+		return this.#addVirtual('datachange', fn, opts ?? {}, (_signal, _listenerOpts, fire) =>
+			this.#watchData(all, key, fire)
+		);
+	}
+
+	/**
+	 * Binds a data value of this InDom object to a target element: the target is updated right away
+	 * and on every change of the value (see {@link onDataChange}).
+	 *
+	 * - `'text'` - text content of the target (empty for `null` / `undefined`)
+	 * - `'attr:<name>'` - attribute of the target, removed for `null`, `undefined` and `false` (empty for `true`)
+	 * - `'class:<name>'` - class of the target, present while the value is truthy
+	 * - a function - called with the target InDom object, the value and this InDom object
+	 *
+	 * Stored under the `datachange` type: removed with `.off('datachange', handler)`, and automatically
+	 * when either this element or the target is removed.
+	 *
+	 * @param {any} key - Data key
+	 * @param {InDom | Element} target - Element to update (may be this element)
+	 * @param {InDomBinding} how - What to update on the target
+	 * @param {InDomEventOptions} [opts] - Options (`namespace`, `signal`)
+	 * @returns {InDomHandler} The handler reference (pass to `.off('datachange', …)`)
+	 * @throws {Error} If DOM not ready, or this element or the target is not connected
+	 * @throws {TypeError} If `target` is not an Element or InDom object, or `how` is not a valid binding
+	 */
+	bind(key: any, target: InDom | Element, how: InDomBinding, opts: InDomEventOptions = {}): InDomHandler {
+		this.#ensureConnected();
+		if (!(target instanceof InDom) && !InDom.#isElement(target)) {
+			throw new TypeError('Binding target must be an Element or InDom object', { cause: target });
+		}
+		const t = target instanceof InDom ? target : new InDom(target);
+		t.#ensureConnected();
+		const apply = InDom.#binding(how);
+		const update = (n: InDom, _k: any, v: any) => {
+			if (t.#el) {
+				apply(t, v, n);
+			}
+		};
+		return this.#addVirtual('datachange', update, opts, (_signal, _listenerOpts, fire, h) => {
+			apply(t, this.getData(key), this);
+			const unwatch = this.#watchData(false, key, fire);
+			if (t === this) {
+				return unwatch;
+			}
+			// removing the target drops the binding, removing this element drops the target's hook
+			const hook = t.onRemove(() => this.#el && this.#offType('datachange', [], h));
+			return () => {
+				unwatch();
+				if (t.#el) {
+					t.#offOnRemove(hook);
+				}
+			};
+		});
+	}
+
 	/**
 	 * Sets the `innerHTML` of the underlying element.
 	 *
@@ -1579,7 +5211,7 @@ export class InDom {
 	 */
 	getStyle(...properties: string[]): CSSStyleDeclaration | string | Record<string, string> {
 		this.#checkElement();
-		const style = window.getComputedStyle(this.#el as HTMLElement);
+		const style = InDom.#window().getComputedStyle(this.#el as HTMLElement);
 
 		if (properties.length === 0) return style;
 		if (properties.length === 1) return style.getPropertyValue(properties[0]);
@@ -1689,14 +5321,14 @@ export class InDom {
 		this.#ensureConnected();
 		const el = this.#el as HTMLElement;
 		const box = el.getBoundingClientRect();
-		const style = window.getComputedStyle(el);
+		const style = InDom.#window().getComputedStyle(el);
 
 		const marginTop = parseFloat(style.marginTop) || 0;
 		const marginLeft = parseFloat(style.marginLeft) || 0;
 		const marginRight = parseFloat(style.marginRight) || 0;
 		const marginBottom = parseFloat(style.marginBottom) || 0;
 
-		return new DOMRect(
+		return new (InDom.#window().DOMRect)(
 			box.left - marginLeft,
 			box.top - marginTop,
 			box.width + marginLeft + marginRight,
@@ -1720,14 +5352,14 @@ export class InDom {
 		const parent = el.offsetParent as HTMLElement | null;
 		let offsetX = 0, offsetY = 0;
 
-		if (parent && parent !== document.body && parent !== document.documentElement) {
+		if (parent && parent !== el.ownerDocument.body && parent !== el.ownerDocument.documentElement) {
 			const parentRect = parent.getBoundingClientRect();
-			const parentStyle = window.getComputedStyle(parent);
+			const parentStyle = InDom.#window().getComputedStyle(parent);
 			offsetX = parentRect.left + (parseFloat(parentStyle.borderLeftWidth) || 0);
 			offsetY = parentRect.top + (parseFloat(parentStyle.borderTopWidth) || 0);
 		}
 
-		return new DOMRect(
+		return new (InDom.#window().DOMRect)(
 			box.left - offsetX,
 			box.top - offsetY,
 			box.width,
@@ -1749,7 +5381,7 @@ export class InDom {
 		const box = el.getBoundingClientRect();
 		const doc = el.ownerDocument.documentElement;
 		const win = el.ownerDocument.defaultView!;
-		return new DOMRect(
+		return new (InDom.#window().DOMRect)(
 			box.left + win.scrollX - doc.clientLeft,
 			box.top  + win.scrollY - doc.clientTop,
 			box.width,
@@ -1779,7 +5411,7 @@ export class InDom {
 		if (container instanceof InDom) {
 			container = container.el();
 		} else if (!container) {
-			container = document;
+			container = InDom.#document();
 		}
 
 		const el = this.#el as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
@@ -1845,7 +5477,7 @@ export class InDom {
 		if (container) {
 			scope = container instanceof InDom ? container.el() : container;
 		} else {
-			scope = document;
+			scope = InDom.#document();
 		}
 
 		const el = this.#el as HTMLElement & { value?: string; type?: string; name?: string; options?: HTMLOptionsCollection; multiple?: boolean };
@@ -1861,14 +5493,14 @@ export class InDom {
 		}
 
 		// Handle checkbox group
-		if (el instanceof HTMLInputElement && el.type === 'checkbox' && el.name) {
+		if (el.tagName === 'INPUT' && el.type === 'checkbox' && el.name) {
 			const checkboxes = scope.querySelectorAll<HTMLInputElement>(`input[type="checkbox"][name="${el.name}"]`);
 			checkboxes.forEach(cb => cb.checked = vals.includes(cb.value));
 			return this;
 		}
 
 		// Handle radio group
-		if (el instanceof HTMLInputElement && el.type === 'radio' && el.name) {
+		if (el.tagName === 'INPUT' && el.type === 'radio' && el.name) {
 			const radios = scope.querySelectorAll<HTMLInputElement>(`input[type="radio"][name="${el.name}"]`);
 			radios.forEach(rb => rb.checked = vals.includes(rb.value));
 			return this;
@@ -1884,16 +5516,93 @@ export class InDom {
 	}
 
 	/**
-	 * Removes the underlying DOM element from the document and cleans the internal state.
-	 * Automatically invoked if the element is removed externally.
+	 * Removes the underlying DOM element from the document and cleans the internal state.
+	 * Automatically invoked if the element is removed externally.
+	 *
+	 * @returns {void}
+	 * @throws {Error} If the underlying element has already been removed
+	 */
+	remove(): void {
+		this.#checkElement();
+		const el = this.#el as Element;
+		// the observer skips kept alive / detached subtrees: tear down their tracked descendants here
+		const held = InDom.#isHeld(el);
+		el.remove();
+		this.#destroy();
+		if (held) {
+			const gone = new Set<InDom>();
+			const all = el.querySelectorAll('*');
+			for (let i = 0; i < all.length; i++) {
+				if (InDom.#map.has(all[i])) {
+					gone.add(InDom.#map.get(all[i])!);
+				}
+				InDom.#collectShadow(all[i], gone);
+			}
+			for (const n of gone) {
+				n.#destroy();
+			}
+		}
+	}
+
+	/**
+	 * Takes the underlying element out of the DOM while keeping its state (listeners, data …) and that
+	 * of its tracked descendants, e.g. to cache a view and reinsert it later. It gets automatic cleanup
+	 * again once reinserted; an explicit `.remove()` tears it down.
+	 *
+	 * @returns {this} The current InDom instance (chainable)
+	 * @throws {Error} If the underlying element has been removed
+	 * @throws {TypeError} If the InDom object contains the document
+	 */
+	detach(): this {
+		this.#checkElement();
+		if (!InDom.#isElement(this.#el)) {
+			throw new TypeError('The document cannot be detached', { cause: this.#el });
+		}
+		if (this.#el.isConnected && !this.#detached) {
+			// untracked objects (no listeners or data yet) must be found by #isHeld and #reattach
+			this.#track();
+			this.#detached = true;
+			InDom.#detachedCount++;
+		}
+		this.#el.remove();
+		return this;
+	}
+
+	/**
+	 * Exempts the underlying element and its subtree from automatic cleanup (or restores it):
+	 * while kept alive, their InDom objects keep their state when removed from the DOM by any means.
+	 * An explicit `.remove()` still tears them down. Restoring cleanup while the element is out of the DOM
+	 * (and not otherwise held) cleans it up right away, as its removal would have.
 	 *
-	 * @returns {void}
-	 * @throws {Error} If the underlying element has already been removed
+	 * @param {boolean} [on=true] - `false` to restore automatic cleanup
+	 * @returns {this} The current InDom instance (chainable)
+	 * @throws {Error} If the underlying element has been removed
 	 */
-	remove(): void {
+	keepAlive(on: boolean = true): this {
 		this.#checkElement();
-		(this.#el as Element).remove();
-		this.#destroy();
+		const was = this.#keepAlive;
+		this.#keepAlive = !!on;
+		if (on) {
+			this.#track();
+		} else if (was && !this.#el!.isConnected && !InDom.#isHeld(this.#el!)) {
+			// the observer already saw its removal: clean up the subtree as it would have
+			const el = this.#el as Element;
+			const gone = new Set<InDom>([this]);
+			const all = el.querySelectorAll('*');
+			for (let i = 0; i < all.length; i++) {
+				if (InDom.#map.has(all[i])) {
+					gone.add(InDom.#map.get(all[i])!);
+				}
+				InDom.#collectShadow(all[i], gone);
+			}
+			InDom.#collectShadow(el, gone);
+			for (const n of gone) {
+				if (n.#el && !InDom.#isHeld(n.#el)) {
+					n.remove();
+				}
+			}
+		}
+		return this;
 	}
 
 	/**
@@ -1913,7 +5622,102 @@ export class InDom {
 	 */
 	#checkAbortController(): void {
 		if (!this.#abortController) {
-			this.#abortController = new AbortController();
+			this.#abortController = new (InDom.#window().AbortController)();
+		}
+	}
+
+	/**
+	 * Registers the instance in #map if needed (and in debug mode among the tracked objects).
+	 * @private
+	 */
+	#track(): void {
+		if (!InDom.#map.has(this.#el!)) {
+			InDom.#map.set(this.#el!, this);
+		}
+		if (InDom.#debug) {
+			InDom.#live.add(this);
+		}
+	}
+
+	/**
+	 * Debug mode: warns when a function is registered again for the same event type on the element.
+	 * @private
+	 * @param {string} type - Event type
+	 * @param {Function} fn - Handler as given by the caller
+	 * @param {string | null} [selector] - Selector of a delegated listener
+	 */
+	#warnDuplicate(type: string, fn: Function, selector: string | null = null): void {
+		const handlers = InDom.#debug ? this.#events?.[type] : undefined;
+		if (!handlers) {
+			return;
+		}
+		for (const rec of handlers.values()) {
+			if (rec.fn === fn && (rec.selector ?? null) === selector) {
+				console.warn(`InDom: the same handler is registered again for '${type}'`
+					+ (selector === null ? '' : ` (delegated to '${selector}')`), this.#el);
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Adds a data change watcher for one key (or every key).
+	 * @private
+	 * @param {boolean} all - Watch every key
+	 * @param {any} key - Key to watch
+	 * @param {(...args: any[]) => void} fire - Called with the key, the new value and the previous value
+	 * @returns {() => void} Removes the watcher
+	 */
+	#watchData(all: boolean, key: any, fire: (...args: any[]) => void): () => void {
+		const w = (k: any, v: any, old: any) => {
+			if (all || Object.is(k, key)) {
+				fire(k, v, old);
+			}
+		};
+		(this.#dataWatchers ??= new Set()).add(w);
+		return () => {
+			this.#dataWatchers?.delete(w);
+		};
+	}
+
+	/**
+	 * Returns the stored form of a data value, for change detection: the `data-*` attribute string
+	 * (parsed values such as JSON objects are new on every read) or the in-memory value.
+	 * @private
+	 * @param {any} k - Data key
+	 * @returns {[boolean, any]} Whether the value is an attribute, and the attribute string or in-memory value
+	 */
+	#rawData(k: any): [boolean, any] {
+		const attr = this.getAttr('data-' + String(k));
+		return attr !== null ? [true, attr] : [false, this.#data?.get(k)];
+	}
+
+	/**
+	 * Checks whether two stored forms of a data value (from `#rawData`) are the same.
+	 * @private
+	 * @static
+	 * @param {[boolean, any]} a - First stored form
+	 * @param {[boolean, any]} b - Second stored form
+	 * @returns {boolean} True if both are attributes or both in-memory, with the same value
+	 */
+	static #sameRawData(a: [boolean, any], b: [boolean, any]): boolean {
+		return a[0] === b[0] && Object.is(a[1], b[1]);
+	}
+
+	/**
+	 * Calls the data change watchers, if the value changed.
+	 * @private
+	 * @param {any} k - Data key
+	 * @param {any} v - New value
+	 * @param {any} old - Previous value
+	 */
+	#notifyData(k: any, v: any, old: any): void {
+		if (Object.is(v, old)) {
+			return;
+		}
+		// copy: `once` watchers remove themselves while running
+		for (const w of Array.from(this.#dataWatchers!)) {
+			w(k, v, old);
 		}
 	}
 
@@ -1923,9 +5727,7 @@ export class InDom {
 	 */
 	#checkData(): void {
 		if (!this.#data) {
-			if (!InDom.#map.has(this.#el!)) {
-				InDom.#map.set(this.#el!, this);
-			}
+			this.#track();
 			this.#data = new Map<any, any>();
 		}
 	}
@@ -1937,13 +5739,11 @@ export class InDom {
 	 */
 	#checkEvents(type: string): void {
 		if (!this.#events) {
-			if (!InDom.#map.has(this.#el!)) {
-				InDom.#map.set(this.#el!, this);
-			}
+			this.#track();
 			this.#events = {}; // plain object
 		}
 		if (!this.#events[type]) {
-			this.#events[type] = new Set<InDomHandler>();
+			this.#events[type] = new Map<InDomHandler, InDomListener>();
 		}
 	}
 
@@ -1953,17 +5753,351 @@ export class InDom {
 	 * @throws {Error} If DOM not ready or element is not connected
 	 */
 	#ensureConnected(): void {
-		if (!InDom.#ready) {
+		this.#checkElement(); // throws if #el is null
+		if (!this.#pending && !this.#el!.isConnected && InDom.#inPending(this.#el!.parentNode)) {
+			// descendants of a detached mode element (e.g. queried from it) are in detached mode too
+			this.#enterPending();
+		}
+		if (this.#pending) {
+			// detached mode: allowed until first connected (also when connected natively)
+			if (!this.#el!.isConnected) {
+				return;
+			}
+			this.#flushPending();
+		}
+		// elements of an observed root (shadow root, iframe document …) do not wait for the main document
+		if (!InDom.#ready && !InDom.#isObserved(this.#el!)) {
 			throw new Error('DOM content must be loaded first for this operation');
 		}
-		this.#checkElement(); // throws if #el is null
-		if (!this.#el!.isConnected) {
+		// kept alive / detached elements keep working while out of the DOM
+		if (!this.#el!.isConnected && !InDom.#isHeld(this.#el!)) {
 			throw new Error('Element must be connected to DOM for this operation', {
 				cause: this.#el
 			});
 		}
 	}
 
+	/**
+	 * Leaves detached mode: runs the setups deferred while the element was detached.
+	 * @private
+	 */
+	#flushPending(): void {
+		const pending = this.#pending!;
+		this.#pending = null; // its #pendingRefs entry is pruned on the next insertion
+		for (let i = 0; i < pending.length; i++) {
+			pending[i]();
+		}
+	}
+
+	/**
+	 * Tracks the primary pointer from `pointerdown` to `pointerup` / `pointercancel` on the underlying
+	 * element and feeds each step to a gesture recognizer. Returning `false` from the recognizer
+	 * stops tracking until the next `pointerdown`.
+	 * @private
+	 * @param {AbortSignal} signal - Detaches the pointer listeners
+	 * @param {AddEventListenerOptions} listenerOpts - Native listener options (capture, passive)
+	 * @param {boolean} capture - Whether to capture the pointer on `pointerdown`
+	 * @param {(phase: 'down' | 'move' | 'up' | 'cancel', g: InDomGesture, e: PointerEvent | null) => boolean | void} recognize -
+	 *        Gesture recognizer; `e` is `null` when tracking is cancelled by removal
+	 * @returns {() => void} Cleanup that cancels an active gesture
+	 */
+	#trackPointer(
+		signal: AbortSignal,
+		listenerOpts: AddEventListenerOptions,
+		capture: boolean,
+		recognize: (phase: 'down' | 'move' | 'up' | 'cancel', g: InDomGesture, e: PointerEvent | null) => boolean | void
+	): () => void {
+		const el = this.#el as Element;
+		const opts = { ...listenerOpts, signal };
+		let g: InDomGesture | null = null;
+		let pointerId = 0;
+		let startTime = 0;
+
+		const update = (e: PointerEvent) => {
+			g!.x = e.clientX;
+			g!.y = e.clientY;
+			g!.dx = g!.x - g!.startX;
+			g!.dy = g!.y - g!.startY;
+			g!.duration = e.timeStamp - startTime;
+			g!.direction = g!.dx === 0 && g!.dy === 0
+				? null
+				: Math.abs(g!.dx) >= Math.abs(g!.dy)
+					? (g!.dx < 0 ? 'left' : 'right')
+					: (g!.dy < 0 ? 'up' : 'down');
+		};
+		const end = (phase: 'up' | 'cancel', e: PointerEvent | null) => {
+			const last = g!;
+			g = null;
+			recognize(phase, last, e);
+		};
+
+		el.addEventListener('pointerdown', ev => {
+			const e = ev as PointerEvent;
+			if (e.isPrimary === false || (e.pointerType === 'mouse' && e.button !== 0)) {
+				return;
+			}
+			if (g) {
+				end('cancel', null);
+			}
+			pointerId = e.pointerId;
+			startTime = e.timeStamp;
+			g = {
+				phase: 'start', startX: e.clientX, startY: e.clientY, x: e.clientX, y: e.clientY,
+				dx: 0, dy: 0, duration: 0, direction: null
+			};
+			if (capture) {
+				try { el.setPointerCapture(e.pointerId); } catch { /* pointer already released */ }
+			}
+			if (recognize('down', g, e) === false) {
+				g = null;
+			}
+		}, opts);
+		el.addEventListener('pointermove', ev => {
+			const e = ev as PointerEvent;
+			if (!g || e.pointerId !== pointerId) {
+				return;
+			}
+			update(e);
+			if (recognize('move', g, e) === false) {
+				g = null;
+			}
+		}, opts);
+		el.addEventListener('pointerup', ev => {
+			const e = ev as PointerEvent;
+			if (!g || e.pointerId !== pointerId) {
+				return;
+			}
+			update(e);
+			end('up', e);
+		}, opts);
+		el.addEventListener('pointercancel', ev => {
+			const e = ev as PointerEvent;
+			if (!g || e.pointerId !== pointerId) {
+				return;
+			}
+			end('cancel', e);
+		}, opts);
+
+		return () => {
+			if (g) {
+				end('cancel', null);
+			}
+		};
+	}
+
+	/**
+	 * Registers a document-level listener owned by this element that fires for events
+	 * whose path does not include the underlying element.
+	 * @private
+	 * @param {string} type - Pseudo event type it is stored under
+	 * @param {string} nativeType - Document event to listen to
+	 * @param {(n: InDom, e: Event) => void} fn - Handler function
+	 * @param {InDomEventOptions} opts - Event options
+	 * @returns {InDomHandler} The handler reference
+	 * @throws {TypeError} If `fn` is not a function or the underlying object is the document
+	 */
+	#onOutside(type: string, nativeType: string, fn: (n: InDom, e: Event) => void, opts: InDomEventOptions): InDomHandler {
+		this.#ensureConnected();
+		if (typeof fn !== 'function') {
+			throw new TypeError('Event handler must be a function', { cause: fn });
+		}
+		const el = this.#el!;
+		if (!InDom.#isElement(el)) {
+			throw new TypeError('Nothing is outside the document, use an element', { cause: el });
+		}
+		const doc = el.ownerDocument;
+		return this.#addVirtual(type, fn, opts, (signal, listenerOpts, fire) => {
+			doc.addEventListener(nativeType, e => {
+				if (!e.composedPath().includes(el)) {
+					fire(e);
+				}
+			}, { ...listenerOpts, capture: true, signal });
+		});
+	}
+
+	/**
+	 * Validates the handler of an observer-backed listener and returns the element to observe.
+	 * @private
+	 * @param {Function} fn - Handler function
+	 * @returns {Element} The underlying element
+	 * @throws {Error} If DOM not ready or element not connected
+	 * @throws {TypeError} If `fn` is not a function or the underlying object is the document
+	 */
+	#observable(fn: Function): Element {
+		this.#ensureConnected();
+		if (typeof fn !== 'function') {
+			throw new TypeError('Event handler must be a function', { cause: fn });
+		}
+		if (!InDom.#isElement(this.#el)) {
+			throw new TypeError('Only elements can be observed, not the document', { cause: this.#el });
+		}
+		return this.#el;
+	}
+
+	/**
+	 * Registers a listener on a shared IntersectionObserver that fires when the element's
+	 * visibility changes to `visible`.
+	 * @private
+	 * @param {string} type - Pseudo event type it is stored under
+	 * @param {boolean} visible - Fire on becoming visible (`true`) or hidden (`false`)
+	 * @param {(n: InDom, entry: IntersectionObserverEntry) => void} fn - Handler function
+	 * @param {InDomVisibleOptions} opts - Intersection settings plus event options
+	 * @returns {InDomHandler} The handler reference
+	 */
+	#onIntersect(
+		type: string,
+		visible: boolean,
+		fn: (n: InDom, entry: IntersectionObserverEntry) => void,
+		opts: InDomVisibleOptions
+	): InDomHandler {
+		const el = this.#observable(fn);
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const { threshold = 0, rootMargin = '0px', ...eventOpts } = opts as InDomVisibleOptions;
+		if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+			throw new TypeError('threshold must be a number between 0 and 1', { cause: threshold });
+		}
+		if (typeof rootMargin !== 'string') {
+			throw new TypeError('rootMargin must be a string', { cause: rootMargin });
+		}
+		const key = `intersection|${threshold}|${rootMargin}`;
+		return this.#addVirtual(type, fn, eventOpts, (_signal, _listenerOpts, fire) => {
+			// hidden until the first entry says otherwise, so onHidden needs a visible phase first
+			let was = false;
+			return InDom.#observeShared(key, cb => new (InDom.#window().IntersectionObserver)(cb, { threshold, rootMargin }), el,
+				(entry: IntersectionObserverEntry) => {
+					const is = entry.isIntersecting && entry.intersectionRatio >= threshold;
+					if (is === was) {
+						return;
+					}
+					was = is;
+					if (is === visible) {
+						fire(entry);
+					}
+				});
+		});
+	}
+
+	/**
+	 * Drops a listener from the bookkeeping when the caller's signal aborts.
+	 * @private
+	 * @param {AbortSignal} signal - Caller-supplied signal
+	 * @param {string} type - Event type the listener is stored under
+	 * @param {InDomHandler} h - The listener
+	 * @returns {() => void} Cleanup that stops watching the signal
+	 */
+	#forgetOnAbort(signal: AbortSignal, type: string, h: InDomHandler): () => void {
+		const onAbort = () => this.#offType(type, [], h);
+		signal.addEventListener('abort', onAbort, { once: true });
+		return () => signal.removeEventListener('abort', onAbort);
+	}
+
+	/**
+	 * Registers a listener under a pseudo event type (gestures, observers …) that has no native
+	 * event of that name, so `.off(type, handler)`, namespaces, signals and element removal apply to it.
+	 * @private
+	 * @param {string} type - Pseudo event type it is stored under
+	 * @param {Function} fn - Caller's handler, called with the InDom object first
+	 * @param {InDomEventOptions} opts - Event options (namespace, signal, rate options, native listener options)
+	 * @param {(signal: AbortSignal, listenerOpts: AddEventListenerOptions, fire: (...args: any[]) => void, h: InDomHandler) => (() => void) | void} setup -
+	 *        Attaches what the listener needs, detached when `signal` aborts; calls `fire` to run the handler
+	 *        (honoring `once` and the `debounce` / `throttle` / `frame` options); may return an extra cleanup
+	 * @returns {InDomHandler} The handler reference returned to the caller
+	 * @throws {TypeError} If options are invalid
+	 */
+	#addVirtual(
+		type: string,
+		fn: Function,
+		opts: InDomEventOptions,
+		setup: (
+			signal: AbortSignal,
+			listenerOpts: AddEventListenerOptions,
+			fire: (...args: any[]) => void,
+			h: InDomHandler
+		) => (() => void) | void
+	): InDomHandler {
+		if (!InDom.#isObject(opts)) {
+			throw new TypeError('Options must be an object if defined', { cause: opts });
+		}
+		const h = fn.bind(null, this) as InDomHandler;
+		const { ns, signal: userSignal, rate, listenerOpts } = InDom.#splitOptions(opts);
+		if (userSignal?.aborted) {
+			return h;
+		}
+		const { once, signal, ...nativeOpts } = listenerOpts;
+		const call = (args: any[]) => (h as (...args: any[]) => void)(...args);
+		const limited = rate ? InDom.#rateLimit(call, rate) : null;
+		const fire = (...args: any[]) => {
+			if (once) {
+				this.#offType(type, [], h);
+			}
+			limited ? limited.run(args) : call(args);
+		};
+
+		const ctrl = new (InDom.#window().AbortController)();
+		let extra: (() => void) | void;
+		// detached mode: what reaches outside the element starts once it is connected
+		if (this.#pending) {
+			this.#pending.push(() => {
+				if (!ctrl.signal.aborted) {
+					extra = setup(ctrl.signal, nativeOpts, fire, h);
+				}
+			});
+		} else {
+			extra = setup(ctrl.signal, nativeOpts, fire, h);
+		}
+		const unwatch = userSignal ? this.#forgetOnAbort(userSignal, type, h) : null;
+
+		this.#warnDuplicate(type, fn);
+		this.#checkEvents(type);
+		this.#events![type]!.set(h, {
+			ns,
+			capture: false,
+			opts: Object.freeze({ ...opts }),
+			virtual: true,
+			fn,
+			cleanup: () => {
+				ctrl.abort();
+				limited?.cancel();
+				extra?.();
+				unwatch?.();
+			}
+		});
+		InDom.#record(() => this.#offType(type, [], h), this);
+		return h;
+	}
+
+	/**
+	 * Removes the listeners of one event type that match the namespaces and/or handler.
+	 * Called internally by {@link off}.
+	 *
+	 * @private
+	 * @param {string} type - Event type
+	 * @param {string[]} ns - Namespaces the listener must all have (empty matches any)
+	 * @param {InDomHandler} [fn] - Specific handler to remove. If omitted, removes every match.
+	 */
+	#offType(type: string, ns: string[], fn?: InDomHandler): void {
+		const handlers = this.#events?.[type];
+		if (!handlers) {
+			return;
+		}
+
+		for (const [h, rec] of handlers) {
+			if (fn !== undefined && h !== fn) continue;
+			if (ns.length > 0 && !ns.every(x => rec.ns.includes(x))) continue;
+			if (!rec.virtual) {
+				this.#el!.removeEventListener(type, h as EventListener, rec.capture);
+			}
+			rec.cleanup?.();
+			handlers.delete(h);
+		}
+
+		if (handlers.size === 0) {
+			delete this.#events![type];
+		}
+	}
+
 	/**
 	 * Removes `onRemove` handler(s) from the internal event registry.
 	 * Called internally by {@link off} when type is `"onRemove"`.
@@ -1992,6 +6126,30 @@ export class InDom {
 		return this;
 	}
 
+	/**
+	 * Creates a delegated listener: resolves the closest element matching the selector
+	 * from the event target, within the underlying element, and calls `fn` with its InDom object.
+	 * @private
+	 * @param {string} selector - CSS selector of descendants to delegate to
+	 * @param {(n: InDom, e: Event) => void} fn - Handler function
+	 * @param {(e: Event) => void} [onMatch] - Called before `fn` when an element matches (removes `once` listeners)
+	 * @returns {EventListener} The listener to attach to the underlying element
+	 */
+	#delegate(selector: string, fn: (n: InDom, e: Event) => void, onMatch?: (e: Event) => void): EventListener {
+		const container = this.#el!;
+		return (e: Event) => {
+			const target = e.target;
+			if (!InDom.#isElement(target)) {
+				return;
+			}
+			const match = target.closest(selector);
+			if (match && match !== container && container.contains(match)) {
+				onMatch?.(e);
+				fn(InDom.#wrap(match)!, e);
+			}
+		};
+	}
+
 	/**
 	 * Shared walker for getNext / getPrev.
 	 * @private
@@ -2020,6 +6178,12 @@ export class InDom {
 	#destroy(): void {
 		this.#checkElement();
 
+		this.#pending = null;
+		if (this.#detached) {
+			this.#detached = false;
+			InDom.#detachedCount--;
+		}
+
 		if (this.#abortController) {
 			this.#abortController.abort();
 			this.#abortController = null;
@@ -2029,20 +6193,195 @@ export class InDom {
 			this.#data.clear();
 			this.#data = null;
 		}
+		this.#dataWatchers = null;
+
+		// scopes no longer need to undo anything here: don't let them hold the object
+		if (this.#scoped) {
+			for (const [scope, disposer] of this.#scoped) {
+				scope.delete(disposer);
+			}
+			this.#scoped = null;
+		}
 
 		const removeHandlers =
 			this.#events && this.#events['onRemove']
-				? Array.from(this.#events['onRemove'])
+				? Array.from(this.#events['onRemove'].keys())
 				: [];
 
+		// release what listeners hold outside the element
+		for (const t in this.#events) {
+			for (const rec of this.#events[t]!.values()) {
+				rec.cleanup?.();
+			}
+		}
+
 		this.#events = null;
 		InDom.#map.delete(this.#el!);
+		if (InDom.#live.delete(this)) {
+			InDom.#removed++;
+		}
 
+		// a throwing callback does not stop the others, the first error is rethrown after cleanup
+		const el = this.#el;
+		let error: unknown = null;
+		let failed = false;
 		for (const fn of removeHandlers) {
-			(fn as (n: InDom) => void)(this);
+			try {
+				(fn as (n: InDom) => void)(this);
+			} catch (e) {
+				if (InDom.#debug) {
+					console.warn('InDom: an onRemove callback threw during cleanup', el, e);
+				}
+				if (!failed) {
+					failed = true;
+					error = e;
+				}
+			}
 		}
-
 		this.#el = null;
+		if (failed) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Collects registrations made while it runs (see {@link InDom.scope}) and undoes them at once with `.dispose()`,
+ * e.g. for listeners a transient view attaches to `document`, `window` or layout shells that outlive it.
+ */
+export class InDomScope {
+	/**
+	 * Undo functions, in registration order
+	 * @private
+	 * @type {Set<() => void>}
+	 */
+	#disposers = new Set<() => void>();
+
+	/**
+	 * Whether `.dispose()` has run
+	 * @private
+	 * @type {boolean}
+	 */
+	#disposed = false;
+
+	/**
+	 * Unbinds the scope from the element given to `.bindTo()`
+	 * @private
+	 * @type {(() => void) | null}
+	 */
+	#unbind: (() => void) | null = null;
+
+	/**
+	 * Whether the scope has been disposed.
+	 *
+	 * @returns {boolean} True after `.dispose()`
+	 */
+	get disposed(): boolean {
+		return this.#disposed;
+	}
+
+	/**
+	 * Runs `fn` with this scope active, recording its registrations. See {@link InDom.scope}.
+	 *
+	 * @param {() => T} fn - Function whose registrations are recorded
+	 * @returns {T} The return value of `fn`
+	 * @throws {TypeError} If `fn` is not a function
+	 * @throws {Error} If the scope has been disposed
+	 */
+	run<T>(fn: () => T): T {
+		if (typeof fn !== 'function') {
+			throw new TypeError('Scope function must be a function', { cause: fn });
+		}
+		let result!: T;
+		InDom.scope(() => {
+			result = fn();
+		}, this);
+		return result;
+	}
+
+	/**
+	 * Adds a custom undo function, run by `.dispose()` (e.g. `clearInterval`).
+	 * If the scope is already disposed, it runs immediately.
+	 *
+	 * @param {() => void} disposer - Undo function
+	 * @returns {this} The scope (chainable)
+	 * @throws {TypeError} If `disposer` is not a function
+	 */
+	add(disposer: () => void): this {
+		if (typeof disposer !== 'function') {
+			throw new TypeError('Disposer must be a function', { cause: disposer });
+		}
+		if (this.#disposed) {
+			disposer();
+		} else {
+			this.#disposers.add(disposer);
+		}
+		return this;
+	}
+
+	/**
+	 * Removes an undo function added with `.add()` without running it. InDom removes its own
+	 * undo functions this way when the element they belong to is removed.
+	 *
+	 * @param {() => void} disposer - Undo function
+	 * @returns {boolean} True if it was in the scope
+	 */
+	delete(disposer: () => void): boolean {
+		return this.#disposers.delete(disposer);
+	}
+
+	/**
+	 * Disposes the scope automatically when an element is removed (replaces a previous binding).
+	 *
+	 * @param {InDom | Element} target - Element whose removal disposes the scope
+	 * @returns {this} The scope (chainable)
+	 * @throws {Error} If the scope has been disposed, or the element is not connected
+	 * @throws {TypeError} If `target` is not an InDom object or Element
+	 */
+	bindTo(target: InDom | Element): this {
+		if (this.#disposed) {
+			throw new Error('Scope has been disposed');
+		}
+		const n = target instanceof InDom ? target : new InDom(target);
+		this.#unbind?.();
+		const h = n.onRemove(() => this.dispose());
+		this.#unbind = () => {
+			// once the element is removed, its callbacks are gone with it
+			if (!internals.isRemoved(n)) {
+				n.off('onRemove', h);
+			}
+		};
+		return this;
+	}
+
+	/**
+	 * Undoes every recorded registration, most recent first: removes listeners and `onRemove`
+	 * callbacks, restores data entries, unobserves roots and stops watches. Registrations already
+	 * undone are skipped; those of elements removed since were dropped. Safe to call multiple times.
+	 *
+	 * @throws {any} The first error thrown by a disposer, after running all of them
+	 */
+	dispose(): void {
+		if (this.#disposed) {
+			return;
+		}
+		this.#disposed = true;
+		this.#unbind?.();
+		this.#unbind = null;
+
+		const disposers = Array.from(this.#disposers);
+		this.#disposers.clear();
+		let error: unknown = null;
+		for (let i = disposers.length - 1; i >= 0; i--) {
+			try {
+				disposers[i]();
+			} catch (e) {
+				error ??= e;
+			}
+		}
+		if (error !== null) {
+			throw error;
+		}
 	}
 }
 
@@ -2084,9 +6423,10 @@ export const $id = InDom.getById;
  *
  * @function
  * @param {Element|Document|string} source - DOM element, document, or CSS selector.
+ * @param {InDomCreateOptions} [opts] - Options (`detached`).
  * @returns {InDom} Wrapped instance for the element(s).
  */
-export const $n = (source: Element | Document | string): InDom => new InDom(source);
+export const $n = (source: Element | Document | string, opts?: InDomCreateOptions): InDom => new InDom(source, opts);
 
 /**
  * Shortcut for {@link InDom.getValues}, extracting normalized values from a form or container.
@@ -2097,6 +6437,3 @@ export const $n = (source: Element | Document | string): InDom => new InDom(sour
  */
 export const $v = InDom.getValues;
 
-/* Auto-initialize the observer on load */
-InDom.init();
-
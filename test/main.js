@@ -165,6 +165,15 @@ InDom.onReady(() => {
 			console.log("it's the same object");
 		}
 
+		// Detached mode: prepare a component with handlers and state before inserting it
+		const card = $n('<div class="card"><span class="btn">close</span></div>', { detached: true });
+		card.setData('id', 34);
+		card.on('click', '.btn', n => card.remove());
+		card.onClickOutside(n => n.removeClass('active')); // starts once connected
+		card.onRemove(n => console.log('card removed'));
+		$a('.btn', card).onEnter(n => n.addClass('hover')); // bulk calls work before insertion too
+		$1('.example').append(card); // deferred listeners start here
+
 	};
 
 	const onReadyExample = () => {
@@ -180,6 +189,121 @@ InDom.onReady(() => {
 
 	}
 
+	const configureExample = () => {
+		// observe only a part of the page for automatic cleanup
+		InDom.configure({ root: $id('test') });
+		$id('test').append('<span>inside</span>');
+		$1('#test span').onRemove(() => console.log('cleaned up'));
+		$id('test').setHtml('test with id');
+
+		// back to document.body
+		InDom.configure({ root: null });
+	};
+
+
+	const observeExample = () => {
+
+		// a web component: elements inside its shadow root get auto-cleanup too
+		const host = $1('#search').el();
+		const shadow = host.attachShadow({ mode: 'open' });
+		shadow.innerHTML = '<button class="clear">clear</button>';
+		InDom.observe(shadow);
+
+		const clear = $1('.clear', shadow);
+		clear.onClick(n => console.log('clear'));
+		clear.onRemove(n => console.log('removed with the shadow content'));
+		console.log(InDom.isReady(clear)); // true
+
+		// same-origin iframe: observe its document
+		const frame = $n('<iframe></iframe>');
+		$1('body').append(frame);
+		InDom.observe(frame.el().contentDocument);
+
+		// the whole document, to include <head> elements
+		InDom.observe(document);
+
+		// stop observing
+		InDom.unobserve(frame.el().contentDocument);
+
+	};
+
+	const watchExample = () => {
+
+		// bind tooltips to every .btn, including those inserted later
+		const unwatch = InDom.watch('.btn', {
+			onAdd: n => {
+				n.onEnter(n => n.addClass('tooltip-on'));
+				n.onLeave(n => n.removeClass('tooltip-on'));
+			},
+			onRemove: n => console.log('tooltip target removed')
+		});
+
+		// server-rendered HTML fetched later: no need to query again
+		$1('#search').append('<span class="btn">another btn</span>');
+
+		// only inside a container
+		InDom.watch('.c1, .c2', {
+			onAdd: n => n.addClass('on'),
+			container: $id('something')
+		});
+
+		// stop watching later, e.g. on a click: onAdd runs from a MutationObserver callback (a microtask),
+		// so unwatching synchronously right after append() would miss the new .btn
+		// (listeners already added stay until their elements are removed)
+		$1('#menu').onClick(() => unwatch(), { once: true });
+
+	};
+
+	const scopeExample = () => {
+
+		// a transient view that listens on long-lived elements
+		const openView = () => {
+			const view = $n('<div class="view">view</div>');
+			$1('.example').append(view);
+
+			const s = InDom.scope(() => {
+				$n(document).onKey('escape', () => view.remove());
+				$id('menu').onClick(n => n.addClass('view-open'), { namespace: 'view' });
+				$1('.example').setData('view', 'open');
+				InDom.watch('.btn', { onAdd: n => n.addClass('in-view') });
+			});
+
+			// a custom cleanup too
+			const timer = setInterval(() => console.log('view alive'), 1000);
+			s.add(() => clearInterval(timer));
+
+			// removing the view undoes everything registered in the scope
+			s.bindTo(view);
+			return s;
+		};
+		const s = openView();
+
+		// or dispose explicitly
+		s.dispose();
+
+		// record more later with the same scope
+		const s2 = InDom.createScope();
+		s2.run(() => $n(document).on('visibilitychange', () => console.log(document.visibilityState)));
+		s2.dispose();
+
+	};
+
+	const debugExample = () => {
+		InDom.debug(true);
+
+		const div = $1('.example>div');
+		const log = () => console.log('clicked');
+		div.onClick(log);
+		div.onClick(log); // warns
+		div.setData('page', 1);
+		console.log(InDom.stats());
+
+		div.remove();
+		console.log(InDom.stats());
+		InDom.debug(false);
+	};
+
+
 	const getValueExample = () => {
 
 		// Get the container element the fields that we test.
@@ -269,6 +393,55 @@ InDom.onReady(() => {
 
 	};
 
+	const setValuesExample = () => {
+		const form = $1('.input-examples');
+		const unknown = InDom.setValues({
+			username: 'Alice',
+			color: 'blue',
+			size: ['s', 'm'],
+			payment: 'paypal',
+			features: ['wifi', 'gps'],
+			createdAt: '2024-05-01'
+		}, form);
+		console.log(unknown); // ['createdAt']
+		console.log($v(form));
+
+		InDom.setValues({ name: { 34: 'Bob', 65: 'Carol' }, age: { 34: '28' } }, $1('.input-examples-3'), { clearMissing: true });
+		console.log($v($1('.input-examples-3'))); // {"name":{"34":"Bob","65":"Carol"},"age":{"34":"28","65":""}}
+	};
+
+
+	const nestedValuesExample = () => {
+		const form = $1('.input-examples-4');
+		console.log(JSON.stringify($v(form, { nested: true })));
+		//→ {"user":{"name":"Alice","address":{"city":"Paris"}},"items":[{"sku":"A1","qty":"2"},{"sku":"B7","qty":"1"}],"tags":["gift"]}
+
+		const unknown = InDom.setValues({
+			user: { name: 'Bob', address: { city: 'Rome' }, phone: '555' },
+			items: [{ sku: 'C3', qty: 4 }],
+			tags: ['gift', 'express']
+		}, form, { nested: true, clearMissing: true });
+		console.log(unknown); // ['user[phone]']
+		console.log(JSON.stringify($v('items', form, { nested: true })));
+		//→ {"items":[{"sku":"C3","qty":"4"},{"sku":"","qty":""}]}
+	};
+
+
+	const validateExample = async () => {
+		const form = $1('.input-examples');
+		const rules = {
+			username: { required: true, minLength: 3 },
+			features: { min: 1, messages: { min: 'Pick at least one feature' } },
+			message: { custom: v => !/http/.test(v) || 'No links please' }
+		};
+		const r = await InDom.validate(form, rules, { aria: true, messages: true, live: true, onValidate: r => console.log(r.errors) });
+		console.log(r.valid, r.errors);
+
+		// stop live validation
+		// form.off('.validate');
+	};
+
+
 	const setValueExample = () => {
 
 		// single text input
@@ -337,6 +510,31 @@ InDom.onReady(() => {
 			console.log(n); // do something
 			setTimeout(() => canClick = true, 300);
 		});
+
+		// or let InDom do it: at most once per 300ms
+		$1(".example>div").on(["click", "touchstart"], n => console.log(n), { throttle: 300 });
+
+		// search while typing, once the user pauses
+		$1('[name="username"]').on('input', n => console.log('search:', n.getValue()), { debounce: 250 });
+
+		// scroll work at most once per animation frame
+		$n(document).on('scroll', () => console.log(window.scrollY), { frame: true, passive: true });
+
+		// delegated: one listener on the list, n is the clicked <li> (present or future)
+		const list = $1('ul.example-1');
+		list.on('click', 'li', n => n.addClass('selected'));
+		list.append('<li>added later, still handled</li>');
+
+		// delegated once: used up by the first click on a matching descendant, not by clicks elsewhere in the list
+		list.on('click', 'li:last-child', n => console.log('last item:', n), { once: true });
+		$1('li', list).trigger('click'); // first <li> does not match: still listening
+		$1('li:last-child', list).trigger('click'); // logs, then the listener is removed
+
+		// tie listeners to your own lifecycle: aborting removes them (element removal still does too)
+		const ctrl = new AbortController();
+		$n(document).on('keydown', (_, e) => console.log(e.key), { signal: ctrl.signal });
+		$1('#menu').onClick(() => console.log('clicked'), { signal: ctrl.signal });
+		setTimeout(() => ctrl.abort(), 5000); // both listeners are gone after 5s
 	};
 
 	const onRemoveExample = () => {
@@ -371,7 +569,7 @@ InDom.onReady(() => {
 			console.log(n);
 			/*
 				this function is visible in DevTools:
-				#e (#events) / click / Set entry / [[TargetFunction]]
+				#e (#events) / click / Map entry key / [[TargetFunction]]
 			*/
 		});
 
@@ -390,8 +588,240 @@ InDom.onReady(() => {
 		// remove every handler of every type (including onClick)
 		divs.off();
 
+		// namespaces: remove everything a plugin added, across types
+		divs.on('click.dropdown keydown.dropdown', n => n.addClass('open'));
+		divs.onLeave(n => n.removeClass('open'), { namespace: 'dropdown' });
+		divs.off('.dropdown');
+
+	};
+
+
+	const listenersExample = () => {
+
+		const menu = $id('menu');
+
+		const onOpen = menu.onClick(n => n.addClass('open'), { namespace: 'menu' });
+		menu.onRemove(n => console.log('menu removed'));
+
+		console.log(menu.getListeners());
+		console.log(menu.getListeners('.menu').length); // 1
+		console.log(menu.hasListener('click', onOpen)); // true
+		console.log(menu.hasListener('keydown')); // false
+
+		// count listeners per element, e.g. to spot handlers added twice
+		const divs = $a('.example>div');
+		divs.onClick(n => console.log(n));
+		console.log(divs.getListeners()); // [{ click: 1 }, { click: 1 }, { click: 1 }]
+		console.log(divs.hasListener('click')); // [true, true, true]
+
+	};
+
+
+	const triggerExample = () => {
+
+		const username = $1('[name="username"]');
+
+		// change / input listeners can now be triggered too
+		username.onChange(n => console.log('changed:', n.getValue()));
+		username.setValue('Alice').trigger('change');
+
+		// keyboard event with type-specific fields in init
+		username.on('keydown', (n, e) => console.log(e.key));
+		username.trigger('keydown', undefined, { key: 'Enter' });
+
+		// custom app event with a payload, cancelable by any handler
+		const cart = $1('.example');
+		cart.on('cart:add', (n, e) => {
+			if (e.detail.qty > 10) {
+				e.preventDefault();
+			}
+		});
+		if (cart.trigger('cart:add', { id: 34, qty: 12 })) {
+			console.log('adding was cancelled');
+		}
+
+	};
+
+	const onKeyExample = () => {
+
+		const doc = $n(document);
+
+		// save, without the browser's own "save page" dialog
+		doc.onKey('mod+s', () => console.log('save'), { preventDefault: true });
+
+		// close on escape, but not while the user types in a field
+		doc.onKey('escape', () => $1('#menu').removeClass('on'), { ignoreInputs: true });
+
+		// sequence: press g then i
+		doc.onKey('g i', () => console.log('go to inbox'), { ignoreInputs: true, namespace: 'nav' });
+
+		// shifted digit: matches the Digit1 key, although e.key is '!' on most layouts
+		doc.onKey('ctrl+shift+1', () => console.log('first tab'));
+
+		// element-level shortcut, only while focus is inside the field
+		$1('[name="message"]').onKey('ctrl+enter', n => console.log('send:', n.getValue()));
+
+		// remove the navigation shortcuts
+		doc.off('.nav');
+
+	};
+
+	const gestureExample = () => {
+
+		const cards = $a('.example>div');
+
+		// tap and long press on every card
+		cards.onTap(n => n.addClass('selected'));
+		cards.onLongPress(n => console.log('context menu for', n), { delay: 700 });
+
+		// swipe left to dismiss
+		cards.setStyle('touch-action', 'pan-y');
+		cards.onSwipe('left', n => n.remove());
+
+		// drag a box around
+		const box = $n('<div class="box"></div>');
+		$1('body').append(box);
+		box.setStyle({ position: 'fixed', touchAction: 'none', width: '50px', height: '50px', backgroundColor: 'blue' });
+		let origin;
+		box.onPan((n, e, g) => {
+			if (g.phase === 'start') {
+				origin = n.getBox();
+			}
+			n.setStyle({ left: origin.left + g.dx + 'px', top: origin.top + g.dy + 'px' });
+		}, { namespace: 'drag' });
+
+		// stop dragging after 10s
+		setTimeout(() => box.off('.drag'), 10000);
+
+	};
+
+	const outsideExample = () => {
+
+		const menu = $1('#menu');
+		const menuBtn = $1('>.btn', menu);
+
+		menuBtn.onClick(() => menu.addClass('on'));
+
+		// close the menu on a click or focus anywhere else
+		menu.onClickOutside(n => n.removeClass('on'));
+		menu.onFocusOutside(n => n.removeClass('on'));
+
+		// a popup created on demand: the document listener goes away with it
+		$1('#search>.btn').onClick(() => {
+			const popup = $n('<div class="popup">search popup</div>');
+			$1('#search').append(popup);
+			popup.onClickOutside(n => n.remove());
+		});
+
+		// two panels that act as one region
+		$a('#menu, #search').onClickOutside(() => console.log('clicked outside both'));
+
+	};
+
+	const mutationExample = () => {
+
+		const menu = $id('menu');
+
+		// react when third-party code opens / closes the menu
+		menu.onAttrChange('aria-expanded', (n, name, oldValue, value) => {
+			n.setStyle('outline', value === 'true' ? '1px solid' : '');
+		});
+
+		// any attribute, in a namespace
+		menu.onAttrChange((n, name, oldValue, value) => console.log(name, oldValue, '→', value), { namespace: 'debug' });
+		menu.setAttr('aria-expanded', 'true');
+
+		// children added or removed anywhere inside
+		const results = $1('.example');
+		results.onMutate({ childList: true, subtree: true }, (n, records) => {
+			console.log(`${records.length} mutation(s) in .example`);
+		});
+		results.append('<div>new</div>');
+
+		// remove like any listener; the observers are also disconnected when the elements are removed
+		menu.off('.debug');
+
+	};
+
+	const resizeVisibleExample = () => {
+
+		// responsive component: switch layout by its own width, not the viewport
+		const card = $1('.example');
+		card.onResize((n, contentBox, borderBox) => {
+			n.setAttr('data-size', contentBox.width < 400 ? 'small' : 'large');
+			console.log(`border box: ${borderBox.width}x${borderBox.height}`);
+		});
+
+		// lazy-load an image the first time it comes near the viewport
+		const img = $n('<img data-src="image.jpg" alt="lazy">');
+		$id('img-container').append(img);
+		img.onVisible(n => n.setAttr('src', n.getAttr('data-src')), { once: true, rootMargin: '200px 0px' });
+
+		// count an impression when at least half of each div is in view, pause when hidden
+		$a('.example>div').onVisible(n => console.log('seen', n.getHtml()), { threshold: 0.5 });
+		$a('.example>div').onHidden(n => console.log('hidden', n.getHtml()), { threshold: 0.5 });
+
+		// remove like any listener; elements are also unobserved when removed
+		card.off('resize');
+
 	};
 
+	const waitForExample = () => {
+
+		// onboarding: wait for each step in order
+		const onboarding = async () => {
+			const next = $1('#menu>.btn');
+			try {
+				await next.waitFor('click', { timeout: 30000 });
+				$1('#menu').addClass('on');
+				await $1('#search>.btn').waitFor('click', { timeout: 30000 });
+				console.log('onboarding done');
+			} catch (e) {
+				console.log('onboarding skipped:', e.message);
+			}
+		};
+		onboarding();
+
+	};
+
+	const eventsExample = () => {
+
+		const counter = async () => {
+			const btn = $1('#menu>.btn');
+			let clicks = 0;
+			// runs until the button is removed, or 5 clicks
+			for await (const e of btn.events('click')) {
+				if (++clicks === 5) {
+					break;
+				}
+			}
+			console.log('clicks:', clicks);
+		};
+		counter();
+
+	};
+
+	const subscribeExample = () => {
+
+		// a widget that updates when any other widget adds to the cart
+		const badge = $1('#menu>.btn');
+		badge.subscribe('cart:add', (n, item) => n.setHtml(`cart: ${item.name}`));
+
+		// global: every subscriber receives it
+		InDom.emit('cart:add', { name: 'book' });
+
+		// scoped: a container receives the topics emitted by its descendants
+		const example = $1('.example');
+		example.subscribe('item:select', (n, id, topic, source) => {
+			n.addClass('has-selection');
+			console.log(`${topic} ${id} from`, source.el());
+		}, { namespace: 'selection' });
+		$a('.example>div').onClick(n => n.emit('item:select', n.getHtml()));
+
+		// unsubscribe like any listener; subscriptions are also dropped when the element is removed
+		example.off('.selection');
+
+	};
 
 	const getElementExample = () => {
 
@@ -410,6 +840,37 @@ InDom.onReady(() => {
 	};
 
 
+	const detachExample = () => {
+		const container = $1('.example');
+		const view = $n('<div>cached view</div>');
+		container.append(view);
+		view.onClick(() => console.log('view clicked'));
+		view.setData('scroll', 120);
+
+		// take the view out, state is preserved
+		view.detach();
+		console.log(view.getData('scroll')); // 120
+
+		// put it back, still clickable
+		container.append(view);
+
+		// keepAlive subtree survives setHtml of its parent
+		const kept = $n('<div>kept</div>').keepAlive();
+		container.append(kept);
+		container.setHtml('');
+		$1('#test').append(kept);
+
+		// full teardown
+		kept.remove();
+
+		// restoring cleanup while out of the DOM tears it down right away
+		const cached = $n('<div>cached</div>').keepAlive();
+		container.append(cached);
+		container.setHtml('');
+		cached.keepAlive(false); // cached.el() now throws
+	};
+
+
 	const dataExample = () => {
 		const div = $1('.example>div');
 
@@ -463,6 +924,32 @@ InDom.onReady(() => {
 		}
 	};
 
+
+	const dataChangeExample = () => {
+		const div = $1('.example>div');
+		div.onDataChange('clicked', (n, key, value, old) => console.log(`${key}: ${old} → ${value}`));
+
+		// show the clicks in the div and toggle a class after 3
+		div.bind('clicked', div, 'attr:title');
+		div.bind('clicked', div, (n, clicks) => clicks >= 3 ? n.addClass('on') : n.removeClass('on'));
+		div.onClick(() => div.setData('clicked', (div.getData('clicked') ?? 0) + 1));
+	};
+
+
+	const allDataExample = () => {
+		const div = $1('#test');
+		div.setAttr('data-count', 3).setAttr('data-open', 'false');
+		div.setData('user', { id: 34, name: 'Bob' });
+		console.log(div.getAllData()); // { user: {…}, count: '3', open: 'false' }
+
+		InDom.configure({ typedData: true, dataSchema: { since: raw => new Date(raw) } });
+		console.log(div.getAllData()); // { user: {…}, count: 3, open: false }
+		InDom.configure({ typedData: false, dataSchema: null });
+
+		console.log($a('.example>div').getAllData());
+	};
+
+
 	const isExample = () => {
 
 		const example = $1('.example>div');
@@ -1010,14 +1497,35 @@ InDom.onReady(() => {
 	//getByIdExample();
 	//constructorExample();
 	//onReadyExample(); 
+	//configureExample();
+	//observeExample();
+	//watchExample();
+	//scopeExample();
+	//debugExample();
 	//getValueExample();
 	//getValuesExample();
+	//setValuesExample();
+	//nestedValuesExample();
+	//validateExample();
 	//setValueExample();
 	//onExample();
 	//onRemoveExample();
+	//listenersExample();
+	//triggerExample();
+	//onKeyExample();
+	//gestureExample();
+	//outsideExample();
+	//mutationExample();
+	//resizeVisibleExample();
+	//waitForExample();
+	//eventsExample();
+	//subscribeExample();
 	//getElementExample();
 	//removeExample();
+	//detachExample();
 	//dataExample();
+	//dataChangeExample();
+	//allDataExample();
 	//isExample();
 	//getParentExample();
 	//getSelfOrParentExample();